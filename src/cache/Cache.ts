@@ -5,12 +5,58 @@
  * Supports multiple cache modes: HYBRID, MEMORY_ONLY, REDIS_ONLY, DISABLED
  */
 
-import { CACHE_CONFIG, CONFIG_HELPERS } from './config';
+import { CONFIG_HELPERS, loadConfigLayers, resolveCacheConfig, type CacheConfig, type ConfigLayers } from './config';
 import { ProductionMemoryCache } from './memory';
 import { ProductionTrafficTracker } from './traffic';
-import { ResilientRedis } from './redis';
+import { ResilientRedis, type RedisClient } from './redis';
 import { PerformanceMetrics } from './metrics';
-import type { SystemStats, CacheOptions, SimpleCacheOptions } from './types';
+import { InvalidationBus } from './invalidation';
+import { MemoryStore, RedisStore } from './stores';
+import { createCacheKey, type CacheKey, type CacheKeyOptions } from './keys';
+import { createMemoized, type MemoizedFunction, type MemoizeOptions } from './memoize';
+import { createCachedDecorator, createInvalidatesDecorator, type CacheMethodDecorator, type CachedOptions, type InvalidatesCacheOptions } from './decorators';
+import { BloomFilter, BloomFilterRejectedError } from './bloom';
+import { richSerializer } from './serializer';
+import { CachedNotFoundError, createNotFoundMarker, isEmptyResult, isNotFoundError, isNotFoundMarker } from './negative';
+import { EventEmitter } from 'events';
+import type { SystemStats, CacheOptions, SimpleCacheOptions, CachePlan, CacheEvents, StaleEvent, InvalidationResult, ClearAllOptions, ClearAllResult, InvalidationMessage, InvalidationTransport, CacheStore, StoreEntry, CreateCacheOptions, CacheSerializer, CachePolicyRule, PolicyMatch, UserCacheConfig, ConfigChangeEvent, CacheSchema, BloomFilterOptions } from './types';
+
+/**
+ * Wraps an error thrown by a user fetcher, so it is rethrown as-is
+ * instead of being treated as a cache failure and retried
+ */
+class FetcherError extends Error {
+    constructor(readonly original: unknown) {
+        super(original instanceof Error ? original.message : 'Fetcher failed');
+    }
+}
+
+/**
+ * Run a zod-compatible schema without throwing
+ */
+function checkSchema(schema: CacheSchema, value: unknown): { success: true; data: unknown } | { success: false; error: unknown } {
+    if ('safeParse' in schema) {
+        const result = schema.safeParse(value);
+        return result.success ? { success: true, data: result.data } : { success: false, error: result.error };
+    }
+
+    try {
+        return { success: true, data: schema.parse(value) };
+    } catch (error) {
+        return { success: false, error };
+    }
+}
+
+/**
+ * Compile a policy pattern - `*` matches any characters, `?` exactly one
+ */
+function patternToRegExp(pattern: string): RegExp {
+    const source = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`);
+}
 
 export class ProductionEZCache {
     private memory: ProductionMemoryCache | null = null;
@@ -18,53 +64,115 @@ export class ProductionEZCache {
     private redis: ResilientRedis | null = null;
     private metrics: PerformanceMetrics | null = null;
     private cleanupInterval: ReturnType<typeof setInterval> | null = null;
+    private inflight = new Map<string, Promise<unknown>>(); // Pending fetcher calls per key (single-flight)
+    private events = new EventEmitter();
+    private bus: InvalidationBus | null = null;
+    private tiers: CacheStore[] = []; // Read in order (fastest first), written to all
+    private customStores = false; // Tiers passed by the caller are never rebuilt by configure()
+    private options: UserCacheConfig; // Per-instance options, kept so configure() can layer changes on top
+    private configLayers: ConfigLayers; // Config file and environment, read once at construction
+    private config: CacheConfig;
+    private policies: Array<{ rule: CachePolicyRule; regex: RegExp }> = []; // Checked in order
+    private bloomFilters = new Map<string, BloomFilter>(); // Key namespace → filter
+    private serializer: CacheSerializer; // Shared by the built-in memory and Redis tiers
+    private redisClient: RedisClient | null; // Passed in instead of connecting from redisUrl
+
+    // Instances not yet destroyed - a single exit listener stops all their timers
+    private static live = new Set<ProductionEZCache>();
+    private static stopAllOnExit = (): void => ProductionEZCache.live.forEach(instance => instance.stopCleanup());
 
-    constructor() {
-        this.log(`🚀 Production EZ Cache v3 starting (${CACHE_CONFIG.ENVIRONMENT})...`);
-        this.log(`📋 Cache Mode: ${CACHE_CONFIG.CACHE_MODE}`);
-        this.log(`🎯 Strategy: ${CACHE_CONFIG.CACHE_STRATEGY}`);
+    /**
+     * @param options - Per-instance configuration (env variables supply the defaults)
+     * and an optional custom ordered list of cache tiers (fastest first).
+     * Tiers default to memory then Redis, as enabled by the cache mode.
+     * 
+     * @example
+     * const cache = new ProductionEZCache({
+     *   defaultTtl: 120,
+     *   stores: [new MemoryStore(new ProductionMemoryCache()), new MyDiskStore(), new RedisStore(redis)]
+     * });
+     */
+    constructor(options: CreateCacheOptions = {}) {
+        const { stores, policies, serializer, redisClient, ...config } = options;
+        this.options = config;
+        this.serializer = serializer ?? richSerializer;
+        this.redisClient = redisClient ?? null;
+        this.configLayers = loadConfigLayers();
+        this.config = resolveCacheConfig(config, !!this.redisClient, this.configLayers);
+        policies?.forEach(rule => this.addPolicy(rule.pattern, rule.options));
+
+        this.log(`🚀 Production EZ Cache v3 starting (${this.config.ENVIRONMENT})...`);
+        this.log(`📋 Cache Mode: ${this.config.CACHE_MODE}`);
+        this.log(`🎯 Strategy: ${this.config.CACHE_STRATEGY}`);
 
         // Initialize components based on configuration
-        this.initializeComponents();
+        this.initializeComponents(stores);
 
         // Setup automatic cleanup
         this.setupCleanup();
+        if (ProductionEZCache.live.size === 0) {
+            process.on('exit', ProductionEZCache.stopAllOnExit);
+        }
+        ProductionEZCache.live.add(this);
 
         // Log configuration
         this.logConfiguration();
 
-        this.log(`✅ Production EZ Cache ready! ${CONFIG_HELPERS.getCacheModeDescription()}`);
+        this.log(`✅ Production EZ Cache ready! ${CONFIG_HELPERS.getCacheModeDescription(this.config)}`);
     }
 
     /**
      * Initialize cache components based on configuration
      */
-    private initializeComponents(): void {
+    private initializeComponents(stores?: CacheStore[]): void {
         // Initialize memory cache if enabled
-        if (CACHE_CONFIG.ENABLE_MEMORY) {
-            this.memory = new ProductionMemoryCache();
-            this.log(`🧠 Memory cache initialized (${CACHE_CONFIG.MEMORY_SIZE} items)`);
+        if (this.config.ENABLE_MEMORY) {
+            this.memory = new ProductionMemoryCache(this.config, this.serializer);
+            this.log(`🧠 Memory cache initialized (${this.config.MEMORY_SIZE} items)`);
         }
 
         // Initialize Redis if enabled
-        if (CACHE_CONFIG.ENABLE_REDIS) {
-            this.redis = new ResilientRedis();
+        if (this.config.ENABLE_REDIS) {
+            this.redis = new ResilientRedis({ client: this.redisClient ?? undefined, config: this.config });
             this.log(`💾 Redis client initialized`);
         }
 
+        // Cache tiers - custom stores, or the built-in memory → Redis chain
+        this.customStores = !!stores;
+        this.tiers = stores ? [...stores] : this.defaultTiers();
+        this.log(`🗄️ Cache tiers: ${this.tiers.map(tier => tier.name).join(' → ') || 'none'}`);
+
         // Initialize traffic tracker if needed
-        if (CACHE_CONFIG.ENABLE_TRAFFIC_DETECTION) {
-            this.traffic = new ProductionTrafficTracker();
+        if (this.config.ENABLE_TRAFFIC_DETECTION) {
+            this.traffic = new ProductionTrafficTracker(this.config);
             this.log(`📊 Traffic tracking enabled`);
         }
 
         // Initialize metrics if enabled
-        if (CACHE_CONFIG.ENABLE_METRICS) {
-            this.metrics = new PerformanceMetrics();
+        if (this.config.ENABLE_METRICS) {
+            this.metrics = new PerformanceMetrics(this.config);
             this.log(`📈 Performance metrics enabled`);
         }
     }
 
+    /**
+     * Built-in memory → Redis chain for the enabled components
+     */
+    private defaultTiers(): CacheStore[] {
+        const tiers: CacheStore[] = [];
+        if (this.memory) tiers.push(new MemoryStore(this.memory));
+        if (this.redis) {
+            tiers.push(new RedisStore(this.redis, {
+                serializer: this.serializer,
+                onDecryptionFailure: (key, error) => {
+                    this.log(`🔐 Rejected Redis value for "${key}":`, error);
+                    this.metrics?.recordDecryptionFailure();
+                }
+            }));
+        }
+        return tiers;
+    }
+
     /**
      * Helper function to calculate smart defaults based on TTL
      * Shorter TTL = More aggressive caching (lower traffic threshold)
@@ -73,13 +181,13 @@ export class ProductionEZCache {
     private getSmartTrafficThreshold(ttl: number): number {
         if (ttl <= 60) {
             // Hot data (≤1 min) - very aggressive caching
-            return Math.max(3, Math.floor(CACHE_CONFIG.TRAFFIC_THRESHOLD * 0.1));
+            return Math.max(3, Math.floor(this.config.TRAFFIC_THRESHOLD * 0.1));
         } else if (ttl <= 600) {
             // Warm data (≤10 min) - balanced caching  
-            return Math.max(10, Math.floor(CACHE_CONFIG.TRAFFIC_THRESHOLD * 0.3));
+            return Math.max(10, Math.floor(this.config.TRAFFIC_THRESHOLD * 0.3));
         } else {
             // Cold data (>10 min) - conservative caching
-            return CACHE_CONFIG.TRAFFIC_THRESHOLD;
+            return this.config.TRAFFIC_THRESHOLD;
         }
     }
 
@@ -108,6 +216,10 @@ export class ProductionEZCache {
      *   minTrafficCount: 50,   // Cache after 50 requests
      *   forceCaching: false    // Respect traffic threshold
      * });
+     * 
+     * @example
+     * // Stale-while-revalidate: serve stale data for up to 60s past TTL while refreshing
+     * await ezCache.fetch('products', fetcher, { ttl: 300, staleWhileRevalidate: 60 });
      */
     async fetch<T>(
         key: string,
@@ -117,56 +229,50 @@ export class ProductionEZCache {
         const startTime = Date.now();
         const fullKey = `ez:${key}`;
 
-        // Parse options and apply smart defaults
-        let cacheOptions: CacheOptions;
-
-        if (typeof optionsOrTtl === 'number') {
-            // Legacy number format - TTL only
-            cacheOptions = {
-                ttl: optionsOrTtl,
-                minTrafficCount: this.getSmartTrafficThreshold(optionsOrTtl),
-                forceCaching: false
-            };
-        } else if (optionsOrTtl && typeof optionsOrTtl === 'object') {
-            // Object format with options
-            const ttlValue = optionsOrTtl.ttl || CACHE_CONFIG.DEFAULT_TTL;
-            cacheOptions = {
-                ttl: ttlValue,
-                minTrafficCount: optionsOrTtl.minTrafficCount ?? this.getSmartTrafficThreshold(ttlValue),
-                forceCaching: optionsOrTtl.forceCaching ?? false
-            };
-        } else {
-            // No options provided - use defaults
-            cacheOptions = {
-                ttl: CACHE_CONFIG.DEFAULT_TTL,
-                minTrafficCount: CACHE_CONFIG.TRAFFIC_THRESHOLD,
-                forceCaching: false
-            };
+        // Merge config defaults, the matching policy rule and per-call options
+        const { options: cacheOptions, rule } = this.explainPolicy(key, optionsOrTtl);
+        if (rule) {
+            this.log(`📐 Policy "${rule.pattern}" applied to "${key}"`);
         }
 
-        // Calculate TTL values - use provided TTL or default
-        const memoryTtl = cacheOptions.ttl!;
-        const redisTtl = CACHE_CONFIG.ENABLE_REDIS ? memoryTtl * 10 : memoryTtl; // Redis gets 10x TTL for longer backup
+        // Base TTL - each tier scales it (Redis keeps 10x for longer backup)
+        const plan: CachePlan = {
+            ttl: cacheOptions.ttl!,
+            staleWhileRevalidate: cacheOptions.staleWhileRevalidate!, // Soft TTL → hard TTL window
+            staleIfError: cacheOptions.staleIfError!, // Grace period for serving stale data on fetcher errors
+            distributedLock: cacheOptions.distributedLock!,
+            tags: cacheOptions.tags!,
+            tiers: cacheOptions.tiers ? this.tiers.filter(tier => cacheOptions.tiers!.includes(tier.name)) : this.tiers,
+            schema: cacheOptions.schema,
+            negativeTtl: cacheOptions.negativeTtl!,
+            isNotFound: cacheOptions.isNotFound ?? isNotFoundError,
+            toError: cacheOptions.toError,
+            onStale: cacheOptions.onStale
+        };
 
         // Get traffic threshold for this specific item
         const itemTrafficThreshold = cacheOptions.minTrafficCount!;
 
+        // Bloom filter - checked only when the fetcher is about to run, so cached entries are served as-is
+        const bloom = this.matchBloomFilter(key);
+        const load = bloom ? this.guardWithBloomFilter(key, fetcher, bloom) : fetcher;
+
         try {
-            // Handle DISABLED mode - direct database access
-            if (CACHE_CONFIG.CACHE_MODE === 'DISABLED') {
+            // Handle DISABLED mode (or no tiers for this key) - direct database access
+            if (this.config.CACHE_MODE === 'DISABLED' || plan.tiers.length === 0) {
                 this.log(`🚫 Cache disabled - direct database fetch for "${key}"`);
-                return await fetcher();
+                return await this.runFetcher(load);
             }
 
             // Check traffic if traffic detection is enabled (unless forced caching)
             let isHighTraffic: boolean = cacheOptions.forceCaching || true; // Default to caching if forced or no traffic detection
-            if (CACHE_CONFIG.ENABLE_TRAFFIC_DETECTION && this.traffic && !cacheOptions.forceCaching) {
+            if (this.config.ENABLE_TRAFFIC_DETECTION && this.traffic && !cacheOptions.forceCaching) {
                 isHighTraffic = this.traffic.isHighTraffic(key, itemTrafficThreshold);
 
                 // Low traffic - fetch directly (no caching overhead)
                 if (!isHighTraffic) {
                     this.log(`📊 Low traffic "${key}" (${this.traffic.getCurrentCount(key)}/${itemTrafficThreshold}) - direct database fetch`);
-                    const data = await fetcher();
+                    const data = await this.runFetcher(load);
 
                     if (this.metrics) {
                         this.metrics.recordMiss(Date.now() - startTime);
@@ -176,106 +282,812 @@ export class ProductionEZCache {
                 }
             }
 
-            this.log(`🔥 ${isHighTraffic ? 'High traffic' : 'Caching'} "${key}" (${this.traffic?.getCurrentCount(key) || 0}/${itemTrafficThreshold}) - ${CACHE_CONFIG.CACHE_MODE} mode activated`);
+            this.log(`🔥 ${isHighTraffic ? 'High traffic' : 'Caching'} "${key}" (${this.traffic?.getCurrentCount(key) || 0}/${itemTrafficThreshold}) - ${this.config.CACHE_MODE} mode activated`);
 
             // Try cache layers based on mode
-            return await this.fetchFromCacheLayers(fullKey, fetcher, memoryTtl, redisTtl, startTime);
+            const data = await this.fetchFromCacheLayers(fullKey, load, plan, startTime);
+
+            // A remembered "not found" error is re-thrown until it expires
+            if (isNotFoundMarker(data)) {
+                throw new CachedNotFoundError(data.name, data.message);
+            }
+
+            return data;
 
         } catch (error) {
-            this.log(`❌ Cache error for "${key}":`, error);
+            if (error instanceof BloomFilterRejectedError) {
+                throw error;
+            }
+
+            if (error instanceof CachedNotFoundError) {
+                this.log(`🚫 Cached "not found" for "${key}"`);
+                throw plan.toError ? plan.toError(error) : error;
+            }
 
             if (this.metrics) {
                 this.metrics.recordError();
             }
 
-            // Always fallback to database
+            // Fetcher (database) errors are surfaced as-is - never call the fetcher twice
+            if (error instanceof FetcherError) {
+                this.log(`❌ Fetcher error for "${key}":`, error.original);
+                throw error.original;
+            }
+
+            this.log(`❌ Cache error for "${key}":`, error);
+
+            // Cache layer failure - fallback to database
+            return await load();
+        }
+    }
+
+    /**
+     * Wrap a fetcher in its Bloom filter check
+     * An id that was never added cannot exist, so the database is skipped; every
+     * non-empty result adds its id to the filter.
+     */
+    private guardWithBloomFilter<T>(key: string, fetcher: () => Promise<T>, bloom: { filter: BloomFilter; id: string }): () => Promise<T> {
+        return async () => {
+            if (!(await bloom.filter.mightContain(bloom.id))) {
+                this.log(`🌸 Bloom filter "${bloom.filter.namespace}" rejected "${key}" - skipping database`);
+                throw new BloomFilterRejectedError(bloom.filter.namespace, bloom.id);
+            }
+
+            const data = await fetcher();
+            if (!isEmptyResult(data)) {
+                await bloom.filter.add(bloom.id);
+            }
+            return data;
+        };
+    }
+
+    /**
+     * Run a user fetcher, tagging its errors so they are not mistaken for cache errors
+     */
+    private async runFetcher<T>(fetcher: () => Promise<T>): Promise<T> {
+        try {
             return await fetcher();
+        } catch (error) {
+            // A Bloom filter rejection comes before the user fetcher - never remembered as "not found"
+            if (error instanceof BloomFilterRejectedError) throw error;
+            throw new FetcherError(error);
         }
     }
 
     /**
-     * Fetch data from available cache layers with flexible TTL logic
+     * Fetch data from cache tiers in order with flexible TTL logic
+     * The first fresh hit is copied into the faster tiers before it (backfill).
+     * Stale entries within the stale-while-revalidate window are served immediately
+     * and refreshed in the background. Older stale entries (within stale-if-error)
+     * are kept aside and only served if the fetcher throws.
      */
     private async fetchFromCacheLayers<T>(
         fullKey: string,
         fetcher: () => Promise<T>,
-        memoryTtl: number,
-        redisTtl: number,
+        plan: CachePlan,
         startTime: number
     ): Promise<T> {
-        // Layer 1: Memory Cache (if available and enabled)
-        if (this.memory && CACHE_CONFIG.ENABLE_MEMORY) {
-            const memData = this.memory.get<T>(fullKey);
-            if (memData) {
-                this.log(`⚡ Memory cache hit: ${fullKey} (~2ms)`);
+        let staleFallback: { data: T; staleFor: number; source: string } | null = null;
+
+        for (const [index, tier] of plan.tiers.entries()) {
+            const entry = await this.readTier<T>(tier, fullKey, plan);
+            if (!entry) continue;
+
+            if (!entry.stale) {
+                this.log(`⚡ ${tier.name} cache hit: ${fullKey}`);
+
+                // Backfill the faster tiers for next time
+                await this.writeTiers(plan.tiers.slice(0, index), fullKey, entry.value, plan);
 
                 if (this.metrics) {
                     this.metrics.recordHit(Date.now() - startTime);
                 }
 
-                return memData;
+                return entry.value;
+            }
+
+            if (entry.staleFor <= plan.staleWhileRevalidate) {
+                this.log(`♻️ ${tier.name} stale hit: ${fullKey} - revalidating in background`);
+                this.revalidateInBackground(fullKey, fetcher, plan);
+                return this.serveStale(fullKey, entry.value, entry.staleFor, tier.name, 'revalidate', plan, startTime);
             }
-        }
 
-        // Layer 2: Redis Cache (if available and enabled)
-        if (this.redis && CACHE_CONFIG.ENABLE_REDIS) {
-            const redisData = await this.redis.get(fullKey);
-            if (redisData) {
-                this.log(`💾 Redis cache hit: ${fullKey} (~25ms)`);
+            if (!staleFallback || entry.staleFor < staleFallback.staleFor) {
+                staleFallback = { data: entry.value, staleFor: entry.staleFor, source: tier.name };
+            }
+        }
 
-                // Store in memory for next time (if memory is enabled)
-                if (this.memory) {
-                    this.memory.set(fullKey, redisData, Math.min(memoryTtl, CACHE_CONFIG.MEMORY_TTL_MAX));
-                }
+        try {
+            // Database (cache miss) - join a pending fetch for this key if there is one
+            const pending = this.inflight.get(fullKey) as Promise<T> | undefined;
+            if (pending) {
+                this.log(`🔗 Coalesced miss "${fullKey}" - waiting for pending fetch`);
+                const data = await pending;
 
                 if (this.metrics) {
-                    this.metrics.recordHit(Date.now() - startTime);
+                    this.metrics.recordCoalesced(Date.now() - startTime);
                 }
 
-                return redisData as T;
+                return data;
             }
-        }
 
-        // Layer 3: Database (cache miss)
-        this.log(`🔍 Cache miss "${fullKey}" - fetching from database (~200ms)`);
-        const data = await fetcher();
+            this.log(`🔍 Cache miss "${fullKey}" - fetching from database (~200ms)`);
+            const data = await this.loadAndStore(fullKey, fetcher, plan);
+
+            if (this.metrics) {
+                this.metrics.recordMiss(Date.now() - startTime);
+            }
 
-        // Store in available cache layers
-        await this.storeInCacheLayers(fullKey, data, memoryTtl, redisTtl);
+            return data;
 
+        } catch (error) {
+            // Stale-if-error: the database failed but an expired value is still usable
+            if (staleFallback && staleFallback.staleFor <= plan.staleIfError) {
+                const original = error instanceof FetcherError ? error.original : error;
+                this.log(`🛟 Fetcher failed for "${fullKey}" - serving stale ${staleFallback.source} value (${Math.round(staleFallback.staleFor)}s old)`);
+                return this.serveStale(fullKey, staleFallback.data, staleFallback.staleFor, staleFallback.source, 'error', plan, startTime, original);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Record and announce that a stale value is being served
+     */
+    private serveStale<T>(
+        fullKey: string,
+        data: T,
+        staleFor: number,
+        source: string,
+        reason: StaleEvent['reason'],
+        plan: CachePlan,
+        startTime: number,
+        error?: unknown
+    ): T {
         if (this.metrics) {
-            this.metrics.recordMiss(Date.now() - startTime);
+            this.metrics.recordStaleHit(Date.now() - startTime);
+        }
+
+        const event: StaleEvent = { key: fullKey.slice('ez:'.length), reason, source, staleFor, error };
+
+        try {
+            plan.onStale?.(event);
+            this.events.emit('stale', event);
+        } catch (listenerError) {
+            this.log(`❌ Stale listener failed for "${fullKey}":`, listenerError);
         }
 
         return data;
     }
 
     /**
-     * Store data in available cache layers with optimal TTL strategy
+     * Plan for negative entries - negativeTtl and no stale windows
+     * Without a negativeTtl the request's own plan is used.
+     */
+    private getNegativePlan(plan: CachePlan): CachePlan {
+        if (plan.negativeTtl <= 0) return plan;
+
+        return { ...plan, ttl: plan.negativeTtl, staleWhileRevalidate: 0, staleIfError: 0 };
+    }
+
+    /**
+     * Seconds an entry is kept past its TTL (largest of the stale windows)
+     */
+    private getGraceSeconds(plan: CachePlan): number {
+        return Math.max(plan.staleWhileRevalidate, plan.staleIfError);
+    }
+
+    /**
+     * Run the fetcher once per key and store the result (single-flight)
+     * Concurrent callers share the same pending promise. The entry is removed once
+     * settled, so a rejected fetch is propagated to every waiter and never cached.
+     */
+    private loadAndStore<T>(
+        fullKey: string,
+        fetcher: () => Promise<T>,
+        plan: CachePlan
+    ): Promise<T> {
+        const pending = this.inflight.get(fullKey) as Promise<T> | undefined;
+        if (pending) {
+            return pending;
+        }
+
+        const promise = Promise.resolve()
+            .then(() => this.fetchWithDistributedLock(fullKey, fetcher, plan))
+            .finally(() => this.inflight.delete(fullKey));
+
+        this.inflight.set(fullKey, promise);
+        return promise;
+    }
+
+    /**
+     * Run the fetcher and store the result, holding a Redis lock when enabled
+     * so only one instance fetches a key at a time. Instances that lose the race
+     * poll Redis for the winner's result and fall back to their own fetch after
+     * LOCK_WAIT_MS. If Redis is unavailable (circuit open), the lock is skipped.
+     */
+    private async fetchWithDistributedLock<T>(
+        fullKey: string,
+        fetcher: () => Promise<T>,
+        plan: CachePlan
+    ): Promise<T> {
+        const redis = plan.distributedLock && this.config.ENABLE_REDIS && plan.tiers.some(tier => tier.shared) ? this.redis : null;
+        const lockKey = `lock:${fullKey}`;
+        const lockToken = `${process.pid}:${Date.now()}:${Math.random().toString(36).slice(2)}`;
+        const acquired = redis ? await redis.setnx(lockKey, lockToken, this.config.LOCK_TTL_MS) : null;
+
+        if (redis && acquired === false) {
+            this.log(`🔒 "${fullKey}" is being fetched by another instance - waiting for result`);
+            const shared = await this.waitForRemoteResult<T>(redis, fullKey, plan);
+
+            if (shared) {
+                // The winner already wrote the shared tiers - only local ones need a copy
+                await this.writeTiers(plan.tiers.filter(tier => !tier.shared), fullKey, shared.value, plan);
+                return shared.value;
+            }
+
+            this.log(`⏳ Lock wait for "${fullKey}" timed out - fetching locally`);
+        }
+
+        try {
+            const data = await this.runFetcher(fetcher);
+
+            // Store in available cache layers (empty results only for negativeTtl, if set)
+            await this.storeInCacheLayers(fullKey, data, isEmptyResult(data) ? this.getNegativePlan(plan) : plan);
+
+            return data;
+        } catch (error) {
+            // Remember "not found" errors so unknown IDs stop reaching the database
+            if (plan.negativeTtl > 0 && error instanceof FetcherError && plan.isNotFound(error.original)) {
+                await this.storeInCacheLayers(fullKey, createNotFoundMarker(error.original), this.getNegativePlan(plan));
+            }
+
+            throw error;
+        } finally {
+            if (redis && acquired) {
+                await redis.delIfEquals(lockKey, lockToken);
+            }
+        }
+    }
+
+    /**
+     * Poll the shared tiers for a fresh value written by the lock holder
+     * Gives up early when the circuit breaker opens
+     */
+    private async waitForRemoteResult<T>(redis: ResilientRedis, fullKey: string, plan: CachePlan): Promise<{ value: T } | null> {
+        const deadline = Date.now() + this.config.LOCK_WAIT_MS;
+        const sharedTiers = plan.tiers.filter(tier => tier.shared);
+
+        while (Date.now() < deadline) {
+            await new Promise(resolve => setTimeout(resolve, this.config.LOCK_POLL_MS));
+
+            if (redis.getConnectionStatus().circuitOpen) {
+                return null;
+            }
+
+            for (const tier of sharedTiers) {
+                const entry = await this.readTier<T>(tier, fullKey, plan);
+                if (entry && !entry.stale) {
+                    return { value: entry.value };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Read one tier - a failing custom store counts as a miss
+     */
+    private async readTier<T>(tier: CacheStore, fullKey: string, plan: CachePlan): Promise<StoreEntry<T> | null> {
+        try {
+            const entry = await tier.get<T>(fullKey, { graceSeconds: this.getGraceSeconds(plan), version: this.config.DATA_VERSION });
+            if (!entry) return null;
+
+            // Absence (null, "not found") has no shape to validate
+            const absent = entry.value === null || entry.value === undefined || isNotFoundMarker(entry.value);
+            return plan.schema && !absent ? await this.validateEntry(tier, fullKey, entry, plan.schema, plan) : entry;
+        } catch (error) {
+            this.log(`❌ ${tier.name} read failed for "${fullKey}":`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Check a cached value against the request's schema (the parsed value is served)
+     * A value that fails is evicted from every tier of the request and read as a miss.
+     */
+    private async validateEntry<T>(
+        tier: CacheStore,
+        fullKey: string,
+        entry: StoreEntry<T>,
+        schema: CacheSchema,
+        plan: CachePlan
+    ): Promise<StoreEntry<T> | null> {
+        const result = checkSchema(schema, entry.value);
+        if (result.success) {
+            return { ...entry, value: result.data as T };
+        }
+
+        this.log(`🧪 ${tier.name} value for "${fullKey}" failed schema validation - evicting:`, result.error);
+
+        if (this.metrics) {
+            this.metrics.recordValidationFailure();
+        }
+
+        await Promise.all(plan.tiers.map(target => target.delete(fullKey).catch(() => false)));
+        return null;
+    }
+
+    /**
+     * Re-run the fetcher in the background and refresh cache layers
+     * Shares the single-flight slot, so only one refresh per key runs at a time;
+     * failures keep the stale value
+     */
+    private revalidateInBackground<T>(
+        fullKey: string,
+        fetcher: () => Promise<T>,
+        plan: CachePlan
+    ): void {
+        if (this.inflight.has(fullKey)) {
+            return;
+        }
+
+        this.loadAndStore(fullKey, fetcher, plan)
+            .then(() => this.log(`🔄 Revalidated "${fullKey}" in background`))
+            .catch(error => {
+                this.log(`❌ Background revalidation failed for "${fullKey}":`, error instanceof FetcherError ? error.original : error);
+
+                if (this.metrics) {
+                    this.metrics.recordError();
+                }
+            });
+    }
+
+    /**
+     * Store data in every cache tier with optimal TTL strategy
      */
     private async storeInCacheLayers(
         fullKey: string,
         data: unknown,
-        memoryTtl: number,
-        redisTtl: number
+        plan: CachePlan
     ): Promise<void> {
-        const results: string[] = [];
+        const results = await this.writeTiers(plan.tiers, fullKey, data, plan);
+
+        if (results.length > 0) {
+            this.log(`💾 Cached "${fullKey}": ${results.join(', ')} (TTL: ${plan.ttl}s)`);
+        }
+    }
+
+    /**
+     * Write a value to the given tiers - each keeps it as stale for the grace window
+     * @returns Per-tier results for logging
+     */
+    private async writeTiers(
+        tiers: CacheStore[],
+        fullKey: string,
+        data: unknown,
+        plan: CachePlan
+    ): Promise<string[]> {
+        const options = { ttl: plan.ttl, graceSeconds: this.getGraceSeconds(plan), tags: plan.tags, version: this.config.DATA_VERSION };
+
+        return Promise.all(tiers.map(async tier => {
+            try {
+                return `${tier.name}=${await tier.set(fullKey, data, options)}`;
+            } catch (error) {
+                this.log(`❌ ${tier.name} write failed for "${fullKey}":`, error);
+                return `${tier.name}=false`;
+            }
+        }));
+    }
+
+    /**
+     * 👂 Subscribe to cache events
+     * @param event - Event name (e.g. 'stale')
+     * @param listener - Event listener
+     * 
+     * @example
+     * cache.on('stale', ({ key, reason, staleFor }) => {
+     *   console.warn(`Served stale "${key}" (${reason}, ${staleFor}s old)`);
+     * });
+     */
+    on<E extends keyof CacheEvents>(event: E, listener: CacheEvents[E]): this {
+        this.events.on(event, listener);
+        return this;
+    }
+
+    /**
+     * 🔇 Unsubscribe from cache events
+     * @param event - Event name
+     * @param listener - Listener previously passed to on()
+     */
+    off<E extends keyof CacheEvents>(event: E, listener: CacheEvents[E]): this {
+        this.events.off(event, listener);
+        return this;
+    }
+
+    /**
+     * 📐 Add a per-key-pattern policy rule (checked after existing rules, first match wins)
+     * @param pattern - Key pattern - `*` matches any characters, `?` exactly one
+     * @param options - Defaults for matching keys; per-call options still override them
+     * 
+     * @example
+     * cache
+     *   .addPolicy('products:*', { ttl: 300, tags: ['products'] })
+     *   .addPolicy('user:*:session', { tiers: ['memory'] }) // Never cache in Redis
+     *   .addPolicy('config:*', { forceCaching: true });
+     */
+    addPolicy(pattern: string, options: SimpleCacheOptions): this {
+        this.policies.push({ rule: { pattern, options }, regex: patternToRegExp(pattern) });
+        return this;
+    }
+
+    /**
+     * Remove a policy rule by pattern
+     * @returns true if a rule was removed
+     */
+    removePolicy(pattern: string): boolean {
+        const before = this.policies.length;
+        this.policies = this.policies.filter(({ rule }) => rule.pattern !== pattern);
+        return this.policies.length < before;
+    }
+
+    /**
+     * 🔎 Show which policy rule applies to a key and the options fetch() would use
+     * Precedence: config defaults → matching rule → per-call options (tags are combined)
+     * @param key - Cache key (as passed to fetch)
+     * @param optionsOrTtl - Per-call options to merge, as passed to fetch (optional)
+     * 
+     * @example
+     * cache.explainPolicy('user:42:session');
+     * // { key: 'user:42:session', rule: { pattern: 'user:*:session', ... }, options: { tiers: ['memory'], ... } }
+     */
+    explainPolicy(key: string, optionsOrTtl?: number | SimpleCacheOptions): PolicyMatch {
+        const rule = this.policies.find(({ regex }) => regex.test(key))?.rule ?? null;
+        const callOptions: SimpleCacheOptions = typeof optionsOrTtl === 'number' ? { ttl: optionsOrTtl } : optionsOrTtl ?? {};
+        const merged: SimpleCacheOptions = { ...rule?.options };
+
+        for (const [name, value] of Object.entries(callOptions)) {
+            if (value !== undefined) {
+                (merged as Record<string, unknown>)[name] = value;
+            }
+        }
+
+        // Without any options, keys get the global threshold; with a TTL, a threshold based on it
+        const ttl = merged.ttl || this.config.DEFAULT_TTL;
+        const hasOptions = rule !== null || optionsOrTtl !== undefined;
+
+        const options: CacheOptions = {
+            ttl,
+            minTrafficCount: merged.minTrafficCount ?? (hasOptions ? this.getSmartTrafficThreshold(ttl) : this.config.TRAFFIC_THRESHOLD),
+            forceCaching: merged.forceCaching ?? false,
+            staleWhileRevalidate: Math.max(0, merged.staleWhileRevalidate ?? 0),
+            staleIfError: Math.max(0, merged.staleIfError ?? 0),
+            tags: [...new Set([...(rule?.options.tags ?? []), ...(callOptions.tags ?? [])])],
+            onStale: merged.onStale,
+            distributedLock: merged.distributedLock ?? this.config.ENABLE_DISTRIBUTED_LOCK,
+            tiers: merged.tiers,
+            schema: merged.schema,
+            negativeTtl: Math.max(0, merged.negativeTtl ?? this.config.NEGATIVE_TTL),
+            isNotFound: merged.isNotFound,
+            toError: merged.toError
+        };
+
+        return { key, rule, options };
+    }
+
+    /**
+     * 🔑 Define a typed, parameterized key on this instance
+     * @param pattern - Key pattern with `:name` parameters, e.g. 'user/:id/posts' (→ 'user:42:posts')
+     * @param options - Default cache options, or a function of the parameters (optional)
+     * 
+     * @example
+     * const userPosts = sessions.defineKey('user/:id/posts', ({ id }) => ({ ttl: 300, tags: [`user:${id}`] }));
+     * await userPosts.fetch({ id: 42 }, ({ id }) => db.post.findMany({ where: { userId: id } }));
+     * await userPosts.clear({ id: 42 });
+     */
+    defineKey<P extends string>(pattern: P, options?: CacheKeyOptions<P>): CacheKey<P> {
+        return createCacheKey(this, pattern, options);
+    }
+
+    /**
+     * 🧮 Cache the results of an async function on this instance
+     * Every call goes through fetch(), keyed by '<keyPrefix>:<hash of the arguments>'
+     * (or keyFn's result). The hash ignores object key order and handles Dates, Maps and Sets.
+     * @param fn - Async function to wrap (bind methods first)
+     * @param options - Key prefix, optional keyFn and cache options
+     * @returns A function with the same signature, plus key(), clear() and refresh()
+     * 
+     * @example
+     * const findProducts = cache.memoize((filter: ProductFilter) => repo.findProducts(filter), {
+     *   keyPrefix: 'products:search',
+     *   ttl: 120,
+     *   tags: ['products']
+     * });
+     * await findProducts({ category: 'books', inStock: true });
+     * await findProducts.clear({ inStock: true, category: 'books' }); // Same key
+     */
+    memoize<A extends unknown[], R>(fn: (...args: A) => Promise<R>, options: MemoizeOptions<A>): MemoizedFunction<A, R> {
+        return createMemoized(this, fn, options);
+    }
+
+    /**
+     * 🎀 Method decorator - cache an async method's results on this instance
+     * Calls go through fetch(), keyed by a template with positional placeholders,
+     * a function of the arguments, or '<Class>.<method>:<hash of the arguments>'.
+     * Works with legacy (experimentalDecorators) and TC39 standard decorators.
+     * @param options - Key, tags and cache options
+     * 
+     * @example
+     * class ProductService {
+     *   @cache.cached({ key: 'product:{0}', ttl: 300, tags: ['products', 'product:{0}'] })
+     *   async getProduct(id: number): Promise<Product> { ... }
+     * 
+     *   @cache.cached({ key: (filter: ProductFilter) => `products:${filter.category}` })
+     *   async search(filter: ProductFilter): Promise<Product[]> { ... }
+     * }
+     */
+    cached(options: CachedOptions = {}): CacheMethodDecorator {
+        return createCachedDecorator(this, options);
+    }
+
+    /**
+     * 🎀 Method decorator - invalidate tags and/or clear keys once an async write method resolves
+     * Templates are filled from the arguments before the method runs; nothing is
+     * invalidated if it throws.
+     * @param options - Tags to invalidate and/or keys to clear
+     * 
+     * @example
+     * class ProductService {
+     *   @cache.invalidatesCache({ tags: ['products'], keys: ['product:{0}'] })
+     *   async updateProduct(id: number, data: ProductInput): Promise<Product> { ... }
+     * }
+     */
+    invalidatesCache(options: InvalidatesCacheOptions): CacheMethodDecorator {
+        return createInvalidatesDecorator(this, options);
+    }
+
+    /**
+     * 🌸 Guard a key namespace with a Bloom filter (cache penetration protection)
+     * On a miss, fetch() throws a BloomFilterRejectedError (status 404) for keys in the
+     * namespace whose id was never added, without calling the fetcher. Cached entries
+     * are served without a check. The id is the segment
+     * after the namespace ('product:42:reviews' → '42'). Ids are added by the loader,
+     * by add(), and whenever the fetcher returns a non-empty value.
+     * @param namespace - Key prefix before the first ':' ('product' guards 'product:42')
+     * @param options - Capacity, false-positive rate, loader and Redis sharing
+     * @returns The filter - call add(id) when records are created
+     * 
+     * @example
+     * const products = await cache.addBloomFilter('product', {
+     *   expectedItems: 100_000,
+     *   falsePositiveRate: 0.001,
+     *   redis: true,
+     *   load: async () => (await db.product.findMany({ select: { id: true } })).map(p => p.id)
+     * });
+     * await products.add(newProduct.id);
+     */
+    async addBloomFilter(namespace: string, options: BloomFilterOptions): Promise<BloomFilter> {
+        const filter = new BloomFilter(namespace, options, () => this.redis);
+        const loaded = await filter.load();
+
+        this.bloomFilters.set(namespace, filter);
+        this.log(`🌸 Bloom filter "${namespace}" ready (${loaded} ids, ${filter.size} bits, ${filter.hashCount} hashes${options.redis ? ', shared' : ''})`);
+
+        return filter;
+    }
+
+    /**
+     * Stop guarding a namespace
+     * @returns true if a filter was removed
+     */
+    removeBloomFilter(namespace: string): boolean {
+        return this.bloomFilters.delete(namespace);
+    }
+
+    /**
+     * Find the Bloom filter guarding a key, and the id to check
+     * The id is the segment after the namespace - 'product:42:reviews' checks '42'
+     */
+    private matchBloomFilter(key: string): { filter: BloomFilter; id: string } | null {
+        const [namespace, id] = key.split(':', 2);
+        const filter = id ? this.bloomFilters.get(namespace) : undefined;
+        return filter ? { filter, id } : null;
+    }
 
-        // Store in memory (if enabled) - use memory TTL
-        if (this.memory && CACHE_CONFIG.ENABLE_MEMORY) {
-            const memoryStored = this.memory.set(fullKey, data, Math.min(memoryTtl, CACHE_CONFIG.MEMORY_TTL_MAX));
-            results.push(`Memory=${memoryStored}/${memoryTtl}s`);
+    /**
+     * ⚙️ Change this instance's configuration at runtime (no restart)
+     * Changes are validated and layered over the createCache() options; invalid
+     * values throw a CacheConfigError and nothing is applied. The config file and
+     * environment are not re-read - they keep the values from when the instance was created.
+     * An active invalidation bus picks up the new settings, but its transport keeps the
+     * Redis client it was built with - after retargeting Redis, call useInvalidationBus() again.
+     * - A smaller memorySize evicts entries down to the new size
+     * - Toggling Redis (or changing its URL, token or driver) stops / starts the client
+     * - Emits 'config-changed' when any setting changed
+     * @param changes - UserCacheConfig fields to change (undefined resets a field to its file / env value)
+     * @returns The applied changes
+     * 
+     * @example
+     * cache.on('config-changed', ({ changes }) => console.warn('Cache reconfigured', changes));
+     * cache.configure({ trafficThreshold: 500, memorySize: 1000, enableRedis: false });
+     */
+    configure(changes: UserCacheConfig): ConfigChangeEvent {
+        const options = { ...this.options, ...changes };
+        const config = resolveCacheConfig(options, !!this.redisClient, this.configLayers); // Throws before anything is applied
+        const previous = this.config;
+
+        const diff: ConfigChangeEvent['changes'] = {};
+        for (const name of Object.keys(config) as Array<keyof CacheConfig>) {
+            if (name === 'CONFIG_SOURCES' || previous[name] === config[name]) continue;
+            diff[name] = name === 'REDIS_TOKEN' || name === 'ENCRYPTION_KEYS' ?
+                { previous: '***', current: '***' } :
+                { previous: previous[name], current: config[name] };
         }
 
-        // Store in Redis (if enabled) - use Redis TTL (10x memory for longer backup)
-        if (this.redis && CACHE_CONFIG.ENABLE_REDIS) {
-            const redisStored = await this.redis.setex(fullKey, redisTtl, data);
-            results.push(`Redis=${redisStored}/${redisTtl}s`);
+        this.options = options;
+        this.config = config;
+        const evicted = this.applyConfig(previous);
+        const event: ConfigChangeEvent = { changes: diff, mode: config.CACHE_MODE, evicted };
+
+        if (Object.keys(diff).length > 0) {
+            this.log(`⚙️ Configuration changed: ${Object.keys(diff).join(', ')}`);
+
+            try {
+                this.events.emit('config-changed', event);
+            } catch (listenerError) {
+                this.log(`❌ Config listener failed:`, listenerError);
+            }
         }
 
-        if (results.length > 0) {
-            this.log(`💾 Cached "${fullKey}": ${results.join(', ')} (Memory: ${memoryTtl}s, Redis: ${redisTtl}s)`);
+        return event;
+    }
+
+    /**
+     * Start, stop or update components after a configuration change
+     * @returns Memory entries evicted (smaller MEMORY_SIZE or memory disabled)
+     */
+    private applyConfig(previous: CacheConfig): number {
+        let evicted = 0;
+
+        // Memory - evict down to a smaller size, or drop it entirely
+        if (!this.config.ENABLE_MEMORY && this.memory) {
+            evicted = this.memory.size();
+            this.memory.clear();
+            this.memory = null;
+            this.log(`🧠 Memory cache disabled`);
+        } else if (this.memory) {
+            evicted = this.memory.updateConfig(this.config);
+            if (evicted > 0) this.log(`🧠 Evicted ${evicted} items to fit ${this.config.MEMORY_SIZE}`);
+        } else if (this.config.ENABLE_MEMORY) {
+            this.memory = new ProductionMemoryCache(this.config, this.serializer);
+            this.log(`🧠 Memory cache initialized (${this.config.MEMORY_SIZE} items)`);
+        }
+
+        // Redis - a new connection target needs a new client
+        const retarget = previous.REDIS_URL !== this.config.REDIS_URL ||
+            previous.REDIS_TOKEN !== this.config.REDIS_TOKEN ||
+            previous.REDIS_DRIVER !== this.config.REDIS_DRIVER;
+
+        if (this.redis && (!this.config.ENABLE_REDIS || retarget)) {
+            this.redis.disconnect();
+            this.redis = null;
+            this.log(`💾 Redis client stopped`);
+        }
+        if (this.redis) {
+            this.redis.updateConfig(this.config);
+        } else if (this.config.ENABLE_REDIS) {
+            this.redis = new ResilientRedis({ client: this.redisClient ?? undefined, config: this.config });
+            this.log(`💾 Redis client initialized`);
+        }
+
+        // Invalidation bus - new settings apply at once; a transport can't be moved to another Redis
+        if (this.bus) {
+            this.bus.updateConfig(this.config);
+            if (retarget || previous.ENABLE_REDIS !== this.config.ENABLE_REDIS) {
+                this.log(`📡 Redis changed - call useInvalidationBus() again if its transport used the previous client`);
+            }
+        }
+
+        // Traffic tracking and metrics
+        if (!this.config.ENABLE_TRAFFIC_DETECTION) {
+            this.traffic = null;
+        } else if (this.traffic) {
+            this.traffic.updateConfig(this.config);
+        } else {
+            this.traffic = new ProductionTrafficTracker(this.config);
+        }
+
+        if (!this.config.ENABLE_METRICS) {
+            this.metrics = null;
+        } else if (this.metrics) {
+            this.metrics.updateConfig(this.config);
+        } else {
+            this.metrics = new PerformanceMetrics(this.config);
+        }
+
+        if (!this.customStores) {
+            this.tiers = this.defaultTiers();
+        }
+
+        if (previous.CLEANUP_INTERVAL !== this.config.CLEANUP_INTERVAL) {
+            this.setupCleanup();
+        }
+
+        return evicted;
+    }
+
+    /**
+     * 📡 Broadcast invalidations to (and receive them from) other instances
+     * clear(), forceRefresh(), invalidateTags(), clearByPrefix() and clearAll() are
+     * sent over the transport, and every other instance evicts the same entries
+     * from its memory layer. Received invalidations are never re-broadcast.
+     * @param transport - InProcessTransport, RedisPubSubTransport, RedisStreamTransport or custom
+     * 
+     * @example
+     * await cache.useInvalidationBus(new RedisStreamTransport(redis, { pollMs: 500 }));
+     */
+    async useInvalidationBus(transport: InvalidationTransport): Promise<void> {
+        await this.bus?.stop();
+
+        this.bus = new InvalidationBus(transport, this.config);
+        await this.bus.start(message => this.applyRemoteInvalidation(message));
+
+        this.log(`📡 Invalidation bus connected (instance ${this.bus.instanceId})`);
+    }
+
+    /**
+     * Apply an invalidation received from another instance (local tiers only -
+     * shared tiers like Redis were already cleared by the sender)
+     */
+    private async applyRemoteInvalidation(message: InvalidationMessage): Promise<void> {
+        await this.forEachTier(async tier => {
+            if (tier.shared) return 0;
+
+            switch (message.type) {
+                case 'keys':
+                    await Promise.all(message.values.map(fullKey => tier.delete(fullKey)));
+                    break;
+                case 'tags':
+                    await tier.deleteByTags?.(message.values);
+                    break;
+                case 'prefix':
+                    await Promise.all(message.values.map(prefix => tier.deleteByPrefix?.(prefix)));
+                    break;
+                case 'all':
+                    await tier.clear?.({});
+                    break;
+            }
+            return 0;
+        });
+
+        this.log(`📡 Applied remote invalidation from ${message.origin}: ${message.type} [${message.values.join(', ')}]`);
+    }
+
+    /**
+     * Run an operation on every tier and total the counts for local and shared tiers
+     * A failing tier is logged and counted as 0
+     */
+    private async forEachTier(operation: (tier: CacheStore) => Promise<number>): Promise<InvalidationResult> {
+        const result: InvalidationResult = { memory: 0, redis: 0 };
+
+        for (const tier of this.tiers) {
+            let count = 0;
+            try {
+                count = await operation(tier);
+            } catch (error) {
+                this.log(`❌ ${tier.name} invalidation failed:`, error);
+            }
+
+            if (tier.shared) {
+                result.redis += count;
+            } else {
+                result.memory += count;
+            }
         }
+
+        return result;
     }
 
     /**
@@ -285,22 +1097,90 @@ export class ProductionEZCache {
     async clear(key: string): Promise<void> {
         const fullKey = `ez:${key}`;
 
-        // Clear from memory (if enabled)
-        const memoryCleared = this.memory?.delete(fullKey) || false;
+        // Clear from every tier
+        const cleared = await this.forEachTier(async tier => Number(await tier.delete(fullKey)));
+
+        // Tell other instances to drop their local copy
+        await this.bus?.publish({ type: 'keys', values: [fullKey] });
+
+        this.log(`🗑️ Cleared cache "${key}": Local=${cleared.memory > 0}, Shared=${cleared.redis > 0}`);
+    }
+
+    /**
+     * 🏷️ Invalidate every entry carrying any of the given tags
+     * Removes matching entries from every tier, including Redis (shared by all instances)
+     * @param tags - Tags passed to fetch() via the `tags` option
+     * @returns Number of entries removed from local (memory) and shared (redis) tiers
+     * 
+     * @example
+     * await cache.fetch('products', fetcher, { tags: ['products'] });
+     * await cache.fetch('product:12', fetcher, { tags: ['products', 'product:12'] });
+     * await cache.invalidateTags(['products']); // Drops both
+     */
+    async invalidateTags(tags: string[]): Promise<InvalidationResult> {
+        const result = await this.forEachTier(async tier => await tier.deleteByTags?.(tags) ?? 0);
+
+        await this.bus?.publish({ type: 'tags', values: tags });
 
-        // Clear from Redis (if enabled)  
-        const redisCleared = await this.redis?.del(fullKey) || false;
+        this.log(`🏷️ Invalidated tags [${tags.join(', ')}]: Memory=${result.memory}, Redis=${result.redis}`);
 
-        this.log(`🗑️ Cleared cache "${key}": Memory=${memoryCleared}, Redis=${redisCleared}`);
+        return result;
     }
 
     /**
-     * 🧹 Clear all cache
+     * ✂️ Clear every entry whose key starts with a prefix
+     * Uses cursor-based SCAN in Redis (never the blocking KEYS command)
+     * @param prefix - Key prefix (without the internal `ez:` namespace)
+     * @returns Number of entries removed from local (memory) and shared (redis) tiers
+     * 
+     * @example
+     * await cache.clearByPrefix('user:42:'); // user:42:profile, user:42:posts, ...
      */
-    async clearAll(): Promise<void> {
-        this.memory?.clear();
-        this.traffic?.clear();
-        this.log(`🧹 All caches cleared`);
+    async clearByPrefix(prefix: string): Promise<InvalidationResult> {
+        const fullPrefix = `ez:${prefix}`;
+        const result = await this.forEachTier(async tier => await tier.deleteByPrefix?.(fullPrefix) ?? 0);
+
+        await this.bus?.publish({ type: 'prefix', values: [fullPrefix] });
+
+        this.log(`✂️ Cleared prefix "${prefix}": Memory=${result.memory}, Redis=${result.redis}`);
+
+        return result;
+    }
+
+    /**
+     * 🧹 Clear all cache - traffic data and every tier (all `ez:*` keys in Redis)
+     * Redis keys (and tag indexes) are removed in SCAN batches, so other
+     * instances stop serving old data too.
+     * @param options - dryRun (count only), batchSize, onProgress callback
+     * @returns Number of entries removed (or that would be removed) from local and shared tiers
+     * 
+     * @example
+     * const result = await cache.clearAll({
+     *   dryRun: true,
+     *   onProgress: ({ deleted, batches }) => console.log(`${deleted} keys in ${batches} batches`)
+     * });
+     */
+    async clearAll(options: ClearAllOptions = {}): Promise<ClearAllResult> {
+        const dryRun = options.dryRun ?? false;
+        let batches = 0;
+
+        if (!dryRun) {
+            this.traffic?.clear();
+        }
+
+        const result = await this.forEachTier(async tier => {
+            const progress = await tier.clear?.(options);
+            batches += progress?.batches ?? 0;
+            return progress?.deleted ?? 0;
+        });
+
+        if (!dryRun) {
+            await this.bus?.publish({ type: 'all', values: [] });
+        }
+
+        this.log(`🧹 ${dryRun ? '[dry run] Would clear' : 'All caches cleared'}: Memory=${result.memory}, Redis=${result.redis} (${batches} batches)`);
+
+        return { ...result, batches, dryRun };
     }
 
     /**
@@ -318,6 +1198,37 @@ export class ProductionEZCache {
         return this.fetch(key, fetcher, optionsOrTtl);
     }
 
+    /**
+     * 🛑 Shut this instance down
+     * Clears its timers, stops the invalidation bus, disconnects Redis (an injected
+     * redisClient is left open) and removes its exit listener. Call it when an instance
+     * from createCache() is discarded (per-tenant caches, tests). Memory entries stay
+     * readable; Redis is not used afterwards.
+     * 
+     * @example
+     * const tenantCache = createCache({ redisUrl: tenant.redisUrl });
+     * // ...
+     * await tenantCache.destroy();
+     */
+    async destroy(): Promise<void> {
+        this.stopCleanup();
+        ProductionEZCache.live.delete(this);
+        if (ProductionEZCache.live.size === 0) {
+            process.off('exit', ProductionEZCache.stopAllOnExit);
+        }
+
+        await this.bus?.stop();
+        this.bus = null;
+
+        if (this.redis) {
+            this.redis.disconnect();
+            this.redis = null;
+            if (!this.customStores) this.tiers = this.defaultTiers();
+        }
+
+        this.log(`🛑 Cache instance destroyed`);
+    }
+
     /**
      * 📊 Get comprehensive system statistics
      */
@@ -333,32 +1244,33 @@ export class ProductionEZCache {
             available: false, connected: false, circuitOpen: false,
             failures: 0, lastFailure: 0, mode: 'unavailable' as const
         };
-        const metricsStats = (CACHE_CONFIG.ENABLE_METRICS && this.metrics) ? this.metrics.getStats() : null;
+        const metricsStats = (this.config.ENABLE_METRICS && this.metrics) ? this.metrics.getStats() : null;
 
         return {
             system: {
-                environment: CACHE_CONFIG.ENVIRONMENT,
+                environment: this.config.ENVIRONMENT,
                 version: '3.0.0',
                 uptime: Date.now() - (metricsStats?.lastReset || Date.now()),
-                cacheStrategy: CONFIG_HELPERS.getCacheModeDescription()
+                cacheStrategy: CONFIG_HELPERS.getCacheModeDescription(this.config)
             },
             memory: {
                 ...memoryStats,
-                enabled: CACHE_CONFIG.ENABLE_MEMORY
+                enabled: this.config.ENABLE_MEMORY
             },
             redis: {
                 ...redisStatus,
-                enabled: CACHE_CONFIG.ENABLE_REDIS,
-                circuitBreakerEnabled: CACHE_CONFIG.ENABLE_CIRCUIT_BREAKER
+                enabled: this.config.ENABLE_REDIS,
+                circuitBreakerEnabled: this.config.ENABLE_CIRCUIT_BREAKER
             },
             traffic: trafficStats,
             performance: metricsStats,
+            bloom: [...this.bloomFilters.values()].map(filter => filter.getStats()),
             config: {
-                trafficThreshold: CACHE_CONFIG.TRAFFIC_THRESHOLD,
-                defaultTtl: CACHE_CONFIG.DEFAULT_TTL,
-                memoryTtlMax: CACHE_CONFIG.MEMORY_TTL_MAX,
-                memorySize: CACHE_CONFIG.MEMORY_SIZE,
-                maxValueSize: CACHE_CONFIG.MAX_VALUE_SIZE
+                trafficThreshold: this.config.TRAFFIC_THRESHOLD,
+                defaultTtl: this.config.DEFAULT_TTL,
+                memoryTtlMax: this.config.MEMORY_TTL_MAX,
+                memorySize: this.config.MEMORY_SIZE,
+                maxValueSize: this.config.MAX_VALUE_SIZE
             }
         };
     }
@@ -415,7 +1327,7 @@ export class ProductionEZCache {
             this.memory?.delete(testKey);
             await this.redis?.del(testKey);
 
-            const overall = memoryWorks && (redisWorks || !CACHE_CONFIG.ENABLE_REDIS) && trafficWorks;
+            const overall = memoryWorks && (redisWorks || !this.config.ENABLE_REDIS) && trafficWorks;
 
             return {
                 memory: memoryWorks,
@@ -438,41 +1350,57 @@ export class ProductionEZCache {
      * 🔧 Setup automatic cleanup processes
      */
     private setupCleanup(): void {
-        if (this.cleanupInterval) {
-            clearInterval(this.cleanupInterval);
-        }
+        this.stopCleanup();
 
         this.cleanupInterval = setInterval(() => {
             this.log(`🧹 Running periodic cleanup...`);
             // The individual components handle their own cleanup
-        }, CACHE_CONFIG.CLEANUP_INTERVAL);
+        }, this.config.CLEANUP_INTERVAL);
 
-        // Cleanup on process exit
-        process.on('exit', () => {
-            if (this.cleanupInterval) {
-                clearInterval(this.cleanupInterval);
-            }
-        });
+        // Must not keep the process alive
+        this.cleanupInterval.unref?.();
+    }
+
+    private stopCleanup(): void {
+        if (this.cleanupInterval) {
+            clearInterval(this.cleanupInterval);
+            this.cleanupInterval = null;
+        }
     }
 
     /**
      * 📝 Log current configuration
      */
     private logConfiguration(): void {
-        this.log(`📊 Traffic threshold: ${CACHE_CONFIG.TRAFFIC_THRESHOLD} req/min`);
-        this.log(`⏱️ Default TTL: ${CACHE_CONFIG.DEFAULT_TTL}s`);
-        this.log(`🧠 Memory size: ${CACHE_CONFIG.MEMORY_SIZE} items`);
-        this.log(`💾 Redis: ${CACHE_CONFIG.ENABLE_REDIS ? 'enabled' : 'disabled'}`);
-        this.log(`🔧 Circuit breaker: ${CACHE_CONFIG.ENABLE_CIRCUIT_BREAKER ? 'enabled' : 'disabled'}`);
-        this.log(`📈 Metrics: ${CACHE_CONFIG.ENABLE_METRICS ? 'enabled' : 'disabled'}`);
+        this.log(`📊 Traffic threshold: ${this.config.TRAFFIC_THRESHOLD} req/min`);
+        this.log(`⏱️ Default TTL: ${this.config.DEFAULT_TTL}s`);
+        this.log(`🧠 Memory size: ${this.config.MEMORY_SIZE} items`);
+        this.log(`💾 Redis: ${this.config.ENABLE_REDIS ? `enabled (${this.config.REDIS_DRIVER})` : 'disabled'}`);
+        this.log(`🔧 Circuit breaker: ${this.config.ENABLE_CIRCUIT_BREAKER ? 'enabled' : 'disabled'}`);
+        this.log(`📈 Metrics: ${this.config.ENABLE_METRICS ? 'enabled' : 'disabled'}`);
+        this.log(`📄 Config file: ${this.config.CONFIG_FILE ?? 'none'}`);
+        this.log(`🧾 Effective config:`, CONFIG_HELPERS.getConfigSummary(this.config));
     }
 
     /**
      * 📝 Internal logging method
      */
     private log(message: string, ...args: unknown[]): void {
-        if (CACHE_CONFIG.ENABLE_LOGGING) {
+        if (this.config.ENABLE_LOGGING) {
             console.log(`[PROD-EZ-CACHE] ${message}`, ...args);
         }
     }
 }
+
+/**
+ * 🏭 Create a cache instance with its own configuration and components
+ * Options override the environment variables, which only supply defaults.
+ * @param options - UserCacheConfig fields plus optional custom stores
+ * 
+ * @example
+ * const sessions = createCache({ defaultTtl: 60, trafficThreshold: 1 });
+ * const reports = createCache({ defaultTtl: 3600, redisUrl: 'redis://reports:6379' });
+ */
+export function createCache(options: CreateCacheOptions = {}): ProductionEZCache {
+    return new ProductionEZCache(options);
+}
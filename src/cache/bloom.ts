@@ -0,0 +1,183 @@
+/**
+ * 🌸 Bloom Filter Guard
+ *
+ * Blocks cache penetration - lookups for keys that cannot exist (e.g. bots
+ * requesting `product:<random id>`) are answered without reaching the database:
+ * - One filter per key namespace ('product' guards 'product:*') - the id is the
+ *   segment after the namespace, so 'product:42:reviews' is checked as '42'
+ * - A rejected lookup throws a BloomFilterRejectedError (a 404 "not found")
+ * - Kept in memory, and optionally as a Redis bitmap shared by all instances
+ * - Seeded from a loader and updated whenever the fetcher finds a value
+ * - No false negatives: an id that was added always passes
+ */
+
+import type { ResilientRedis } from './redis';
+import type { BloomFilterOptions, BloomFilterStats } from './types';
+
+// Redis bitmaps live outside the ez: namespace, so clearAll() keeps them
+export const BLOOM_PREFIX = 'ez-bloom:';
+
+/**
+ * Thrown by fetch() for a key whose id was never added to its namespace's filter
+ * The fetcher is not called. Counts as "not found" (status 404) for isNotFoundError().
+ */
+export class BloomFilterRejectedError extends Error {
+    readonly status = 404;
+
+    constructor(readonly namespace: string, readonly id: string) {
+        super(`No "${namespace}" with id "${id}" (rejected by Bloom filter)`);
+        this.name = 'BloomFilterRejectedError';
+    }
+}
+
+// 32-bit FNV-1a, seeded to derive two independent hashes
+function fnv1a(value: string, seed: number): number {
+    let hash = (0x811c9dc5 ^ seed) >>> 0;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+export class BloomFilter {
+    readonly size: number; // Bits
+    readonly hashCount: number;
+    readonly falsePositiveRate: number;
+    private bits: Uint8Array;
+    private items = 0;
+    private rejected = 0;
+    private passed = 0;
+
+    /**
+     * @param namespace - Key prefix before the first ':' (e.g. 'product' for 'product:42', 'product:42:reviews')
+     * @param options - Capacity, false-positive rate, loader and Redis sharing
+     * @param getRedis - Redis client for the shared bitmap (null keeps the filter local)
+     */
+    constructor(
+        readonly namespace: string,
+        private options: BloomFilterOptions,
+        private getRedis: () => ResilientRedis | null = () => null
+    ) {
+        this.falsePositiveRate = options.falsePositiveRate ?? 0.01;
+
+        if (!Number.isInteger(options.expectedItems) || options.expectedItems < 1) {
+            throw new Error(`Bloom filter "${namespace}": expectedItems must be an integer >= 1`);
+        }
+        if (!(this.falsePositiveRate > 0 && this.falsePositiveRate < 1)) {
+            throw new Error(`Bloom filter "${namespace}": falsePositiveRate must be between 0 and 1`);
+        }
+
+        // Optimal size and hash count for the expected items and target rate
+        this.size = Math.max(8, Math.ceil(-options.expectedItems * Math.log(this.falsePositiveRate) / (Math.LN2 ** 2)));
+        this.hashCount = Math.max(1, Math.round((this.size / options.expectedItems) * Math.LN2));
+        this.bits = new Uint8Array(Math.ceil(this.size / 8));
+    }
+
+    /**
+     * Seed the filter from the loader (if any) and upload it to the shared bitmap
+     * @returns Number of ids loaded
+     */
+    async load(): Promise<number> {
+        if (!this.options.load) return 0;
+
+        const ids = await this.options.load();
+        for (const id of ids) {
+            this.setLocal(this.positions(String(id)));
+        }
+
+        const redis = this.sharedRedis();
+        if (redis) {
+            const offsets: number[] = [];
+            for (let offset = 0; offset < this.size; offset++) {
+                if (this.isSet(offset)) offsets.push(offset);
+            }
+            await redis.setBits(this.redisKey(), offsets);
+        }
+
+        return ids.length;
+    }
+
+    /**
+     * Record an id that exists (call it when creating records the filter guards)
+     */
+    async add(id: string | number): Promise<void> {
+        const positions = this.positions(String(id));
+        if (positions.every(offset => this.isSet(offset))) return;
+
+        this.setLocal(positions);
+        await this.sharedRedis()?.setBits(this.redisKey(), positions);
+    }
+
+    /**
+     * Check an id - false means it was never added, true means it probably was
+     * A local miss is re-checked against the shared bitmap, since another
+     * instance may have added it.
+     */
+    async mightContain(id: string | number): Promise<boolean> {
+        const positions = this.positions(String(id));
+        let found = positions.every(offset => this.isSet(offset));
+
+        const redis = found ? null : this.sharedRedis();
+        if (redis) {
+            const remote = await redis.getBits(this.redisKey(), positions);
+            // Redis unavailable - let the lookup through rather than block real ids
+            found = remote === null || remote.every(Boolean);
+            if (found && remote) this.setLocal(positions);
+        }
+
+        if (found) {
+            this.passed++;
+        } else {
+            this.rejected++;
+        }
+        return found;
+    }
+
+    /**
+     * Filter statistics (for getStats())
+     */
+    getStats(): BloomFilterStats {
+        return {
+            namespace: this.namespace,
+            items: this.items,
+            bits: this.size,
+            hashes: this.hashCount,
+            falsePositiveRate: this.falsePositiveRate,
+            estimatedFalsePositiveRate: Math.pow(1 - Math.exp(-this.hashCount * this.items / this.size), this.hashCount),
+            rejected: this.rejected,
+            passed: this.passed,
+            shared: this.sharedRedis() !== null
+        };
+    }
+
+    /**
+     * Bit offsets for an id (double hashing)
+     */
+    private positions(id: string): number[] {
+        const h1 = fnv1a(id, 0);
+        const h2 = fnv1a(id, 0x5bd1e995) | 1;
+        return Array.from({ length: this.hashCount }, (_, i) => ((h1 + Math.imul(i, h2)) >>> 0) % this.size);
+    }
+
+    private isSet(offset: number): boolean {
+        return (this.bits[offset >> 3] & (1 << (offset & 7))) !== 0;
+    }
+
+    private setLocal(positions: number[]): void {
+        if (positions.every(offset => this.isSet(offset))) return;
+
+        for (const offset of positions) {
+            this.bits[offset >> 3] |= 1 << (offset & 7);
+        }
+        this.items++; // Approximate - ids that collide completely are counted once
+    }
+
+    private sharedRedis(): ResilientRedis | null {
+        return this.options.redis ? this.getRedis() : null;
+    }
+
+    private redisKey(): string {
+        return BLOOM_PREFIX + this.namespace;
+    }
+}
@@ -0,0 +1,92 @@
+/**
+ * 🧩 Chunked Storage
+ *
+ * Values larger than maxValueSize are split across chunk keys instead of being
+ * refused. The entry key holds a manifest envelope naming the chunk set:
+ * - Chunk keys are 'ez:products#chunk:<id>:<index>', unique per write, so a
+ *   manifest never points at chunks from another write
+ * - Chunks are written first and the manifest last
+ * - A missing chunk or checksum mismatch on read is a miss
+ * - Chunks outlive their manifest slightly, then expire on their own
+ * - 'ez:products#chunks' points at the latest chunk set, so a chunked overwrite
+ *   deletes the chunks it replaced without reading the old value first
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export const CHUNK_SEPARATOR = '#chunk:';
+
+// Extra seconds chunks live past their manifest, so a readable manifest always has its chunks
+export const CHUNK_TTL_MARGIN = 60;
+
+// Suffix of the key pointing at an entry's latest chunk set
+export const CHUNK_POINTER_SUFFIX = '#chunks';
+
+// Recorded on the manifest envelope (CacheEnvelope.chunks)
+export interface ChunkManifest {
+    id: string; // Write id - part of every chunk key
+    count: number;
+    checksum: string; // SHA-1 of the joined payload
+}
+
+// Stored value of a chunk pointer - enough to name the chunks and their tag index entries
+export interface ChunkPointer {
+    id: string;
+    count: number;
+    tags: string[];
+}
+
+// Stored value of one chunk
+export interface StoredChunk {
+    index: number;
+    data: string;
+}
+
+/**
+ * Split text into pieces of at most maxBytes UTF-8 bytes, never inside a character
+ */
+export function splitChunks(text: string, maxBytes: number): string[] {
+    const bytes = Buffer.from(text, 'utf8');
+    const size = Math.max(4, maxBytes); // Room for any UTF-8 character
+    const chunks: string[] = [];
+
+    for (let start = 0; start < bytes.length;) {
+        let end = Math.min(start + size, bytes.length);
+        while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--; // Continuation byte
+        chunks.push(bytes.toString('utf8', start, end));
+        start = end;
+    }
+
+    return chunks.length > 0 ? chunks : [''];
+}
+
+export function createChunkManifest(chunks: string[]): ChunkManifest {
+    return {
+        id: randomBytes(6).toString('hex'),
+        count: chunks.length,
+        checksum: checksum(chunks.join(''))
+    };
+}
+
+export function chunkKeys(key: string, manifest: Pick<ChunkManifest, 'id' | 'count'>): string[] {
+    return Array.from({ length: manifest.count }, (_, index) => `${key}${CHUNK_SEPARATOR}${manifest.id}:${index}`);
+}
+
+/**
+ * Join chunks read back from storage
+ * @returns The payload, or null if a chunk is missing, out of place or the checksum doesn't match
+ */
+export function joinChunks(stored: unknown[], manifest: ChunkManifest): string | null {
+    const valid = stored.length === manifest.count && stored.every((chunk, index) =>
+        typeof chunk === 'object' && chunk !== null &&
+        (chunk as StoredChunk).index === index && typeof (chunk as StoredChunk).data === 'string'
+    );
+    if (!valid) return null;
+
+    const payload = (stored as StoredChunk[]).map(chunk => chunk.data).join('');
+    return checksum(payload) === manifest.checksum ? payload : null;
+}
+
+function checksum(text: string): string {
+    return createHash('sha1').update(text, 'utf8').digest('hex');
+}
@@ -0,0 +1,46 @@
+/**
+ * 🗜️ Value Compression
+ *
+ * Large serialized values are compressed before they go to Redis, so big
+ * entries (e.g. catalog pages of several hundred KB) travel as a fraction of
+ * their size. Compressed payloads are stored as base64 text and marked in the
+ * envelope encoding ("rich+gzip", "rich+brotli") so any reader can undo it.
+ */
+
+import { promisify } from 'util';
+import { brotliCompress, brotliDecompress, constants, gunzip, gzip } from 'zlib';
+import type { CompressionAlgorithm } from './types';
+
+const brotliCompressAsync = promisify(brotliCompress);
+
+const codecs: Record<CompressionAlgorithm, { compress: (input: Buffer) => Promise<Buffer>; decompress: (input: Buffer) => Promise<Buffer> }> = {
+    gzip: {
+        compress: promisify(gzip),
+        decompress: promisify(gunzip)
+    },
+    brotli: {
+        // Quality 11 (the default) is too slow for values on the request path
+        compress: (input) => brotliCompressAsync(input, { params: { [constants.BROTLI_PARAM_QUALITY]: 5 } }),
+        decompress: promisify(brotliDecompress)
+    }
+};
+
+export function isCompressionAlgorithm(value: string): value is CompressionAlgorithm {
+    return Object.prototype.hasOwnProperty.call(codecs, value);
+}
+
+/**
+ * Compress text
+ * @returns The compressed bytes as base64
+ */
+export async function compress(text: string, algorithm: CompressionAlgorithm): Promise<string> {
+    return (await codecs[algorithm].compress(Buffer.from(text, 'utf8'))).toString('base64');
+}
+
+/**
+ * Undo compress()
+ * @throws If the data is not valid for the algorithm
+ */
+export async function decompress(data: string, algorithm: CompressionAlgorithm): Promise<string> {
+    return (await codecs[algorithm].decompress(Buffer.from(data, 'base64'))).toString('utf8');
+}
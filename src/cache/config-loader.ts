@@ -0,0 +1,258 @@
+/**
+ * 📄 Config File Loader & Schema Validation
+ *
+ * Reads configuration from three sources and validates every value:
+ * - shohan.cache.config.{json,js,ts} in the working directory (or CACHE_CONFIG_FILE)
+ * - Environment variables (CACHE_*, REDIS_URL, UPSTASH_REDIS_REST_*)
+ * - createCache() options
+ *
+ * Invalid values are collected and thrown together as a CacheConfigError at
+ * startup, instead of silently becoming NaN or falling back to defaults.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseEncryptionKeys } from './encryption';
+import type { RedisDriver, UserCacheConfig } from './types';
+
+type FieldRule =
+    | { type: 'boolean' }
+    | { type: 'string' }
+    | { type: 'enum'; values: readonly string[] }
+    | { type: 'integer'; min: number }
+    | { type: 'keys' }; // encryptionKeys list - never echoed in errors
+
+// Schema for every UserCacheConfig field
+export const CONFIG_SCHEMA: Record<keyof UserCacheConfig, FieldRule> = {
+    enableRedis: { type: 'boolean' },
+    redisDriver: { type: 'enum', values: ['upstash', 'tcp'] },
+    redisUrl: { type: 'string' },
+    redisToken: { type: 'string' },
+    enableMemory: { type: 'boolean' },
+    memorySize: { type: 'integer', min: 1 },
+    enableLogging: { type: 'boolean' },
+    enableMetrics: { type: 'boolean' },
+    enableTrafficDetection: { type: 'boolean' },
+    enableCircuitBreaker: { type: 'boolean' },
+    enableDistributedLock: { type: 'boolean' },
+    trafficThreshold: { type: 'integer', min: 1 },
+    defaultTtl: { type: 'integer', min: 1 },
+    cleanupInterval: { type: 'integer', min: 1000 },
+    redisTimeout: { type: 'integer', min: 1 },
+    redisRetries: { type: 'integer', min: 0 },
+    circuitFailureThreshold: { type: 'integer', min: 1 },
+    circuitResetTimeout: { type: 'integer', min: 0 },
+    lockTtl: { type: 'integer', min: 1 },
+    lockWait: { type: 'integer', min: 0 },
+    lockPoll: { type: 'integer', min: 1 },
+    maxValueSize: { type: 'integer', min: 1 },
+    windowMs: { type: 'integer', min: 1 },
+    trackerCleanupMs: { type: 'integer', min: 1 },
+    dataVersion: { type: 'string' },
+    negativeTtl: { type: 'integer', min: 0 },
+    compression: { type: 'enum', values: ['gzip', 'brotli', 'none'] },
+    compressionThreshold: { type: 'integer', min: 0 },
+    encryptionKeys: { type: 'keys' },
+    cacheStrategy: { type: 'enum', values: ['aggressive', 'balanced', 'conservative', 'memory-only', 'custom'] }
+};
+
+// Environment variable → config field
+const ENV_FIELDS: Array<[string, keyof UserCacheConfig]> = [
+    ['CACHE_ENABLE_REDIS', 'enableRedis'],
+    ['CACHE_ENABLE_MEMORY', 'enableMemory'],
+    ['CACHE_ENABLE_LOGGING', 'enableLogging'],
+    ['CACHE_ENABLE_METRICS', 'enableMetrics'],
+    ['CACHE_ENABLE_TRAFFIC', 'enableTrafficDetection'],
+    ['CACHE_ENABLE_CIRCUIT_BREAKER', 'enableCircuitBreaker'],
+    ['CACHE_ENABLE_DISTRIBUTED_LOCK', 'enableDistributedLock'],
+    ['CACHE_STRATEGY', 'cacheStrategy'],
+    ['CACHE_TRAFFIC_THRESHOLD', 'trafficThreshold'],
+    ['CACHE_DEFAULT_TTL', 'defaultTtl'],
+    ['CACHE_MEMORY_SIZE', 'memorySize'],
+    ['CACHE_REDIS_TIMEOUT', 'redisTimeout'],
+    ['CACHE_REDIS_RETRIES', 'redisRetries'],
+    ['CACHE_CIRCUIT_THRESHOLD', 'circuitFailureThreshold'],
+    ['CACHE_CIRCUIT_RESET', 'circuitResetTimeout'],
+    ['CACHE_LOCK_TTL', 'lockTtl'],
+    ['CACHE_LOCK_WAIT', 'lockWait'],
+    ['CACHE_LOCK_POLL', 'lockPoll'],
+    ['CACHE_MAX_VALUE_SIZE', 'maxValueSize'],
+    ['CACHE_WINDOW_MS', 'windowMs'],
+    ['CACHE_TRACKER_CLEANUP', 'trackerCleanupMs'],
+    ['CACHE_DATA_VERSION', 'dataVersion'],
+    ['CACHE_NEGATIVE_TTL', 'negativeTtl'],
+    ['CACHE_COMPRESSION', 'compression'],
+    ['CACHE_COMPRESSION_THRESHOLD', 'compressionThreshold'],
+    ['CACHE_ENCRYPTION_KEYS', 'encryptionKeys']
+];
+
+export const CONFIG_FILE_NAMES = ['shohan.cache.config.json', 'shohan.cache.config.js', 'shohan.cache.config.ts'];
+
+/**
+ * Thrown when any configuration source holds invalid values
+ * Lists every problem at once, each prefixed with where it came from.
+ */
+export class CacheConfigError extends Error {
+    constructor(readonly issues: string[]) {
+        super(`Invalid cache configuration:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'CacheConfigError';
+    }
+}
+
+// Describe a rule for error messages
+function describeRule(rule: FieldRule): string {
+    switch (rule.type) {
+        case 'boolean':
+            return 'true or false';
+        case 'string':
+            return 'a string';
+        case 'enum':
+            return `one of ${rule.values.join(', ')}`;
+        case 'integer':
+            return `an integer >= ${rule.min}`;
+        case 'keys':
+            return 'a comma-separated list of keyId:base64Key with 32-byte keys';
+    }
+}
+
+// Show a value in error messages (secrets are masked)
+function describeValue(rule: FieldRule, value: unknown): string {
+    return rule.type === 'keys' ? '***' : JSON.stringify(value);
+}
+
+// Check one value against its rule (env values arrive as strings and are coerced)
+function checkValue(rule: FieldRule, value: unknown, fromEnv: boolean): { ok: boolean; value?: unknown } {
+    switch (rule.type) {
+        case 'boolean':
+            if (typeof value === 'boolean') return { ok: true, value };
+            if (fromEnv && (value === 'true' || value === 'false')) return { ok: true, value: value === 'true' };
+            return { ok: false };
+        case 'string':
+            return { ok: typeof value === 'string', value };
+        case 'enum':
+            return { ok: typeof value === 'string' && rule.values.includes(value), value };
+        case 'integer': {
+            const number = fromEnv && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            const ok = typeof number === 'number' && Number.isInteger(number) && number >= rule.min;
+            return { ok, value: number };
+        }
+        case 'keys':
+            if (typeof value !== 'string') return { ok: false };
+            try {
+                parseEncryptionKeys(value);
+                return { ok: true, value };
+            } catch {
+                return { ok: false };
+            }
+    }
+}
+
+/**
+ * Validate a config object against CONFIG_SCHEMA
+ * @param input - Parsed config (file contents or createCache options)
+ * @param source - Label used in error messages (e.g. the file name)
+ * @returns The valid fields, plus one message per invalid or unknown field
+ */
+export function validateCacheConfig(input: unknown, source: string): { config: UserCacheConfig; issues: string[] } {
+    const config: Record<string, unknown> = {};
+    const issues: string[] = [];
+
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return { config, issues: [`${source}: expected an object of cache options`] };
+    }
+
+    for (const [field, value] of Object.entries(input)) {
+        if (value === undefined) continue;
+
+        const rule = CONFIG_SCHEMA[field as keyof UserCacheConfig];
+        if (!rule) {
+            issues.push(`${source}: unknown option "${field}"`);
+            continue;
+        }
+
+        const result = checkValue(rule, value, false);
+        if (result.ok) {
+            config[field] = result.value;
+        } else {
+            issues.push(`${source}: "${field}" must be ${describeRule(rule)} (got ${describeValue(rule, value)})`);
+        }
+    }
+
+    return { config: config as UserCacheConfig, issues };
+}
+
+/**
+ * Read config fields from environment variables (only variables that are set)
+ * REDIS_URL (TCP, when a driver is installed) wins over UPSTASH_REDIS_REST_URL.
+ */
+export function readEnvConfig(env: Record<string, string | undefined>, tcpDriverInstalled: boolean): { config: UserCacheConfig; issues: string[] } {
+    const config: Record<string, unknown> = {};
+    const issues: string[] = [];
+
+    for (const [name, field] of ENV_FIELDS) {
+        const raw = env[name];
+        if (raw === undefined || raw === '') continue;
+
+        const rule = CONFIG_SCHEMA[field];
+        const result = checkValue(rule, raw, true);
+        if (result.ok) {
+            config[field] = result.value;
+        } else {
+            issues.push(`${name} must be ${describeRule(rule)} (got ${describeValue(rule, raw)})`);
+        }
+    }
+
+    if (env.CACHE_DISABLE_REDIS === 'true') {
+        config.enableRedis = false;
+    }
+
+    let redisDriver: RedisDriver | undefined;
+    if (env.REDIS_URL && tcpDriverInstalled) {
+        redisDriver = 'tcp';
+        config.redisUrl = env.REDIS_URL;
+    } else if (env.UPSTASH_REDIS_REST_URL) {
+        redisDriver = 'upstash';
+        config.redisUrl = env.UPSTASH_REDIS_REST_URL;
+    }
+    if (redisDriver) config.redisDriver = redisDriver;
+    if (env.UPSTASH_REDIS_REST_TOKEN) config.redisToken = env.UPSTASH_REDIS_REST_TOKEN;
+
+    return { config: config as UserCacheConfig, issues };
+}
+
+/**
+ * Find and load the config file
+ * .ts files need a TypeScript loader (ts-node, tsx) registered in the running process.
+ * @param cwd - Directory to search (defaults to process.cwd())
+ * @returns Validated config and the file path (null when there is no file)
+ */
+export function loadConfigFile(cwd = process.cwd()): { path: string | null; config: UserCacheConfig; issues: string[] } {
+    const explicit = process.env.CACHE_CONFIG_FILE;
+    const path = explicit ?
+        resolve(cwd, explicit) :
+        CONFIG_FILE_NAMES.map(name => resolve(cwd, name)).find(candidate => existsSync(candidate));
+
+    if (!path) {
+        return { path: null, config: {}, issues: [] };
+    }
+
+    if (!existsSync(path)) {
+        return { path, config: {}, issues: [`CACHE_CONFIG_FILE points to a missing file: ${path}`] };
+    }
+
+    let contents: unknown;
+    try {
+        if (path.endsWith('.json')) {
+            contents = JSON.parse(readFileSync(path, 'utf8'));
+        } else {
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const loaded = require(path);
+            contents = loaded?.default ?? loaded;
+        }
+    } catch (error) {
+        const hint = path.endsWith('.ts') ? ' (register a TypeScript loader such as ts-node or tsx, or use .json / .js)' : '';
+        return { path, config: {}, issues: [`${path}: could not be loaded - ${error instanceof Error ? error.message : 'Unknown error'}${hint}`] };
+    }
+
+    return { path, ...validateCacheConfig(contents, path) };
+}
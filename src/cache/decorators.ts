@@ -0,0 +1,156 @@
+/**
+ * 🎀 Method Decorators
+ *
+ * @Cached routes an async method through cache.fetch(); @InvalidatesCache clears
+ * tags or keys once a write method resolves:
+ * - Works as a TypeScript legacy decorator (experimentalDecorators) and as a
+ *   TC39 standard decorator - the form is detected from the arguments
+ * - Keys and tags are templates with positional placeholders ('user:{0}:posts',
+ *   'order:{1.id}') or functions of the arguments
+ * - Placeholder values are URI-encoded; objects are hashed like memoize() arguments
+ * - Without a key, @Cached uses '<Class>.<method>:<hash of the arguments>'
+ */
+
+import type { ProductionEZCache } from './Cache';
+import { hashArguments } from './memoize';
+import type { SimpleCacheOptions } from './types';
+
+// Decorator options are written before the method, so their functions can't see its parameter types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type FromArguments<R> = (...args: any[]) => R;
+
+type AnyMethod = (this: unknown, ...args: unknown[]) => Promise<unknown>;
+
+type AsyncMethod<This, A extends unknown[], R> = (this: This, ...args: A) => Promise<R>;
+
+/**
+ * Options for @Cached - cache options plus how the key and tags are built
+ */
+export type CachedOptions = Omit<SimpleCacheOptions, 'tags'> & {
+    /** Key template ('user:{0}:posts') or function of the arguments */
+    key?: string | FromArguments<string | number>;
+    /** Tag templates (['user:{0}']) or function of the arguments */
+    tags?: string[] | FromArguments<string[]>;
+};
+
+/**
+ * Options for @InvalidatesCache - tags to invalidate and/or keys to clear
+ */
+export type InvalidatesCacheOptions =
+    | { tags: string[] | FromArguments<string[]>; keys?: string[] | FromArguments<string[]> }
+    | { tags?: string[] | FromArguments<string[]>; keys: string[] | FromArguments<string[]> };
+
+/**
+ * Decorator returned by @Cached / @InvalidatesCache - async methods only, return type kept
+ */
+export interface CacheMethodDecorator {
+    /** TC39 standard decorators */
+    <This, A extends unknown[], R>(
+        method: AsyncMethod<This, A, R>,
+        context: ClassMethodDecoratorContext<This, AsyncMethod<This, A, R>>
+    ): AsyncMethod<This, A, R>;
+
+    /** TypeScript legacy decorators (experimentalDecorators) */
+    <This, A extends unknown[], R>(
+        target: object,
+        propertyKey: string | symbol,
+        descriptor: TypedPropertyDescriptor<AsyncMethod<This, A, R>>
+    ): TypedPropertyDescriptor<AsyncMethod<This, A, R>>;
+}
+
+// '{0}', '{1.id}', '{0.user.name}'
+const PLACEHOLDER = /\{(\d+)((?:\.[A-Za-z_$][\w$]*)*)\}/g;
+
+/**
+ * Fill a template's placeholders from the arguments
+ * @throws If a placeholder's value is missing or is a function or symbol
+ */
+function renderTemplate(template: string, args: unknown[]): string {
+    return template.replace(PLACEHOLDER, (placeholder: string, index: string, path: string) => {
+        let value: unknown = args[Number(index)];
+        for (const property of path.split('.').slice(1)) {
+            value = (value as Record<string, unknown> | null | undefined)?.[property];
+        }
+
+        if (value === undefined || value === null || value === '') {
+            throw new Error(`Missing argument ${placeholder} for "${template}"`);
+        }
+        if (typeof value === 'function' || typeof value === 'symbol') {
+            throw new TypeError(`Argument ${placeholder} for "${template}" is a ${typeof value} - use a function instead`);
+        }
+        return typeof value === 'object' ? hashArguments([value]) : encodeURIComponent(String(value));
+    });
+}
+
+function renderList(list: string[] | FromArguments<string[]>, args: unknown[]): string[] {
+    return typeof list === 'function' ? list(...args) : list.map(template => renderTemplate(template, args));
+}
+
+// Class name for default keys - `this` is the class itself for static methods
+function ownerName(self: unknown): string {
+    if (typeof self === 'function') return self.name;
+    return (self as { constructor?: { name?: string } } | null | undefined)?.constructor?.name || 'anonymous';
+}
+
+// Apply a method wrapper in whichever decorator form the compiler calls us with
+function decorateMethod(wrap: (method: AnyMethod, name: string) => AnyMethod): CacheMethodDecorator {
+    return ((...decoratorArgs: unknown[]) => {
+        const [target, context, descriptor] = decoratorArgs;
+
+        // TC39: (method, context)
+        if (typeof context === 'object' && context !== null) {
+            const { kind, name } = context as ClassMethodDecoratorContext;
+            if (kind !== 'method') {
+                throw new TypeError(`Cache decorators only apply to methods, not ${kind}s`);
+            }
+            return wrap(target as AnyMethod, String(name));
+        }
+
+        // Legacy: (prototype or class, propertyKey, descriptor)
+        const { value } = (descriptor ?? {}) as PropertyDescriptor;
+        if (typeof value !== 'function') {
+            throw new TypeError('Cache decorators only apply to methods');
+        }
+        return { ...(descriptor as PropertyDescriptor), value: wrap(value, String(context)) };
+    }) as CacheMethodDecorator;
+}
+
+/**
+ * Build @Cached for a cache instance
+ * @param cache - Instance the results are cached in
+ * @param options - Key, tags and cache options
+ */
+export function createCachedDecorator(cache: ProductionEZCache, options: CachedOptions = {}): CacheMethodDecorator {
+    const { key, tags, ...cacheOptions } = options;
+
+    return decorateMethod((method, name) => async function (this: unknown, ...args: unknown[]) {
+        const cacheKey = key === undefined
+            ? `${ownerName(this)}.${name}:${hashArguments(args)}`
+            : typeof key === 'function' ? String(key(...args)) : renderTemplate(key, args);
+        const fetchOptions = { ...cacheOptions, ...(tags && { tags: renderList(tags, args) }) };
+
+        // No cache options at all stays undefined, so fetch() applies the global traffic threshold
+        return cache.fetch(cacheKey, () => method.apply(this, args), Object.keys(fetchOptions).length > 0 ? fetchOptions : undefined);
+    });
+}
+
+/**
+ * Build @InvalidatesCache for a cache instance
+ * @param cache - Instance to invalidate
+ * @param options - Tags to invalidate and/or keys to clear
+ */
+export function createInvalidatesDecorator(cache: ProductionEZCache, options: InvalidatesCacheOptions): CacheMethodDecorator {
+    return decorateMethod(method => async function (this: unknown, ...args: unknown[]) {
+        // Built before the write, so a bad template fails without side effects
+        const tags = options.tags ? renderList(options.tags, args) : [];
+        const keys = options.keys ? renderList(options.keys, args) : [];
+
+        const result = await method.apply(this, args);
+
+        // Only after a successful write - a failed one leaves the cache alone
+        if (tags.length > 0) await cache.invalidateTags(tags);
+        await Promise.all(keys.map(key => cache.clear(key)));
+
+        return result;
+    });
+}
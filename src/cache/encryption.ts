@@ -0,0 +1,155 @@
+/**
+ * 🔐 Redis Value Encryption
+ *
+ * With encryptionKeys set, every Redis payload is encrypted with AES-256-GCM and
+ * every envelope is signed with HMAC-SHA256:
+ * - Keys are listed as 'keyId:base64Key' - the first encrypts, all of them decrypt,
+ *   so a new key can be put in front and the old one dropped once its entries expire
+ * - The key id, IV, GCM tag and signature are stored on the envelope ("sealed")
+ * - The signature covers the Redis key and all envelope fields, so a tampered,
+ *   swapped or unsigned value is rejected as a miss
+ * - Encryption and signing keys are derived from each listed key (HKDF)
+ *
+ * The memory layer stays plaintext.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import type { CacheEnvelope } from './envelope';
+
+export const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+
+// Recorded on encrypted envelopes (CacheEnvelope.sealed)
+export interface SealInfo {
+    keyId: string;
+    iv: string; // Base64
+    tag: string; // GCM auth tag, base64
+    mac: string; // HMAC-SHA256 of the key and envelope, base64
+}
+
+interface KeyPair {
+    encryption: Buffer;
+    signing: Buffer;
+}
+
+const KEY_ID = /^[A-Za-z0-9_.-]+$/;
+
+/**
+ * Parse an encryptionKeys list ('k2:base64,k1:base64')
+ * @throws If an entry is malformed, a key is not 32 bytes or an id repeats
+ */
+export function parseEncryptionKeys(list: string): Array<{ id: string; key: Buffer }> {
+    const keys = list.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+        const separator = entry.indexOf(':');
+        const id = entry.slice(0, separator);
+        const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+        if (separator <= 0 || !KEY_ID.test(id)) {
+            throw new Error('each entry must be keyId:base64Key');
+        }
+        if (key.length !== 32) {
+            throw new Error(`key "${id}" must be 32 bytes (base64)`);
+        }
+        return { id, key };
+    });
+
+    if (new Set(keys.map(({ id }) => id)).size !== keys.length) {
+        throw new Error('key ids must be unique');
+    }
+    return keys;
+}
+
+export class EncryptionKeyring {
+    readonly activeKeyId: string;
+    private keys = new Map<string, KeyPair>();
+
+    /**
+     * @param list - encryptionKeys setting - the first key encrypts new values
+     * @throws If the list is invalid or empty
+     */
+    constructor(list: string) {
+        const parsed = parseEncryptionKeys(list);
+        if (parsed.length === 0) {
+            throw new Error('encryptionKeys is empty');
+        }
+
+        for (const { id, key } of parsed) {
+            this.keys.set(id, {
+                encryption: Buffer.from(hkdfSync('sha256', key, '', 'ez-cache encryption', 32)),
+                signing: Buffer.from(hkdfSync('sha256', key, '', 'ez-cache signing', 32))
+            });
+        }
+        this.activeKeyId = parsed[0].id;
+    }
+
+    /**
+     * Encrypt text with the active key
+     * @returns Base64 ciphertext, with the key id, IV and tag to store
+     */
+    encrypt(text: string): { payload: string; keyId: string; iv: string; tag: string } {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv(ENCRYPTION_ALGORITHM, this.keys.get(this.activeKeyId)!.encryption, iv);
+        const payload = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]).toString('base64');
+
+        return { payload, keyId: this.activeKeyId, iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64') };
+    }
+
+    /**
+     * Decrypt encrypt() output
+     * @throws If the key id is unknown or the ciphertext fails authentication
+     */
+    decrypt(payload: string, seal: Pick<SealInfo, 'keyId' | 'iv' | 'tag'>): string {
+        const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, this.getKeys(seal.keyId).encryption, Buffer.from(seal.iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(seal.tag, 'base64'));
+
+        return Buffer.concat([decipher.update(Buffer.from(payload, 'base64')), decipher.final()]).toString('utf8');
+    }
+
+    /**
+     * Sign an envelope for a Redis key (the envelope's own mac is left out)
+     */
+    sign(key: string, envelope: CacheEnvelope, keyId: string): string {
+        return createHmac('sha256', this.getKeys(keyId).signing).update(signedContent(key, envelope)).digest('base64');
+    }
+
+    /**
+     * Check an envelope's signature
+     * @throws If the envelope is unsigned, the key id is unknown or the signature doesn't match
+     */
+    verify(key: string, envelope: CacheEnvelope): void {
+        if (!envelope.sealed) {
+            throw new Error('value is not signed');
+        }
+
+        const expected = Buffer.from(this.sign(key, envelope, envelope.sealed.keyId), 'base64');
+        const actual = Buffer.from(envelope.sealed.mac, 'base64');
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            throw new Error('signature mismatch');
+        }
+    }
+
+    private getKeys(keyId: string): KeyPair {
+        const pair = this.keys.get(keyId);
+        if (!pair) {
+            throw new Error(`unknown encryption key "${keyId}"`);
+        }
+        return pair;
+    }
+}
+
+// Everything the signature covers, in a fixed order
+function signedContent(key: string, envelope: CacheEnvelope): string {
+    const { keyId, iv, tag } = envelope.sealed ?? {};
+    return JSON.stringify([
+        key,
+        envelope.__ez,
+        envelope.createdAt,
+        envelope.softExpiry,
+        envelope.hardExpiry,
+        envelope.tags,
+        envelope.version,
+        envelope.encoding,
+        envelope.payload,
+        envelope.chunks ?? null,
+        keyId, iv, tag
+    ]);
+}
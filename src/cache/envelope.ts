@@ -0,0 +1,134 @@
+/**
+ * ✉️ Cache Value Envelope
+ *
+ * Every value written to Redis (or another serializing store) is wrapped in a
+ * versioned envelope, so an entry can be inspected without knowing who wrote it:
+ *
+ * ```json
+ * {
+ *   "__ez": 1,                  // Envelope format version
+ *   "createdAt": 1718000000000, // Write time (ms)
+ *   "softExpiry": 1718000300000, // Fresh until (ms)
+ *   "hardExpiry": 1718000360000, // Served as stale until (ms)
+ *   "tags": ["products"],
+ *   "version": "2024-06",       // App data version (dataVersion / CACHE_DATA_VERSION)
+ *   "encoding": "rich",         // Serializer that wrote the payload, plus "+gzip" / "+brotli" if compressed
+ *   "payload": "{\"id\":1}"      // The serialized value (base64 when compressed)
+ * }
+ * ```
+ *
+ * Values larger than maxValueSize are stored in chunks (see chunks.ts): the
+ * envelope then has an empty payload and a "chunks" manifest naming them.
+ *
+ * With encryptionKeys set the payload is encrypted, the encoding ends in
+ * "+aes-256-gcm" and a "sealed" field carries the key id, IV, GCM tag and
+ * signature (see encryption.ts).
+ *
+ * Envelopes written before serializers existed have encoding "json" and the
+ * value itself as payload; they are still read. Any other encoding must match
+ * the reader's serializer, otherwise the entry is a miss.
+ *
+ * The memory layer keeps the same fields on its CacheItem instead of an object
+ * per entry. Bare values written before envelopes existed are still read, as
+ * data version "" - so setting a data version retires them too.
+ */
+
+// Current envelope format - readers skip entries from newer formats
+export const ENVELOPE_FORMAT = 1;
+
+import type { ChunkManifest } from './chunks';
+import type { SealInfo } from './encryption';
+import type { CacheSerializer } from './types';
+
+export interface CacheEnvelope<T = unknown> {
+    __ez: number;
+    createdAt: number;
+    softExpiry: number;
+    hardExpiry: number;
+    tags: string[];
+    version: string;
+    encoding: string; // 'json' (payload is the value itself) or the serializer name (+ compression)
+    payload: T; // Serialized text unless encoding is 'json'
+    chunks?: ChunkManifest; // Payload stored in chunk keys
+    sealed?: SealInfo; // Encryption key, IV and signature (encryptionKeys set)
+}
+
+/**
+ * Wrap a value for storage
+ * @param ttl - Seconds the value is fresh
+ * @param graceSeconds - Extra seconds it may be served as stale
+ * @param encoding - How the payload was encoded (default 'json' - the value itself)
+ * @param chunks - Manifest of the chunk keys holding the payload (payload is then empty)
+ */
+export function createEnvelope(
+    payload: unknown,
+    options: { ttl: number; graceSeconds: number; tags: string[]; version: string; encoding?: string; chunks?: ChunkManifest }
+): CacheEnvelope {
+    const createdAt = Date.now();
+    const softExpiry = createdAt + options.ttl * 1000;
+
+    return {
+        __ez: ENVELOPE_FORMAT,
+        createdAt,
+        softExpiry,
+        hardExpiry: softExpiry + options.graceSeconds * 1000,
+        tags: options.tags,
+        version: options.version,
+        encoding: options.encoding ?? 'json',
+        payload,
+        ...(options.chunks && { chunks: options.chunks })
+    };
+}
+
+/**
+ * Check whether a stored value is an envelope (rather than a legacy bare value)
+ */
+export function isEnvelope(raw: unknown): raw is CacheEnvelope {
+    // An undefined payload is dropped by JSON, so only the metadata is checked
+    return typeof raw === 'object' && raw !== null &&
+        typeof (raw as CacheEnvelope).__ez === 'number' && typeof (raw as CacheEnvelope).createdAt === 'number';
+}
+
+/**
+ * Check an envelope can be served - readable format, same data version, not expired
+ * Cheap enough to run before fetching chunks or decompressing.
+ */
+export function isEnvelopeCurrent(envelope: CacheEnvelope, version: string): boolean {
+    return envelope.__ez <= ENVELOPE_FORMAT && envelope.version === version && Date.now() < envelope.hardExpiry;
+}
+
+/**
+ * Unwrap a stored envelope
+ * @param version - Current app data version - entries written under another one are rejected
+ * @param serializer - Deserializes payloads it wrote (other encodings than "json" are rejected,
+ * so compressed and chunked payloads must be restored first)
+ * @returns The value and its freshness, or null if the entry is expired, from another
+ * data version, from a newer envelope format or unreadable
+ */
+export function openEnvelope<T>(
+    envelope: CacheEnvelope,
+    version: string,
+    serializer?: CacheSerializer
+): { value: T; stale: boolean; staleFor: number } | null {
+    const now = Date.now();
+
+    if (!isEnvelopeCurrent(envelope, version) || envelope.chunks) {
+        return null;
+    }
+
+    let value: T;
+    if (envelope.encoding === 'json') {
+        value = envelope.payload as T;
+    } else if (serializer && envelope.encoding === serializer.name && typeof envelope.payload === 'string') {
+        try {
+            value = serializer.deserialize(envelope.payload) as T;
+        } catch {
+            return null;
+        }
+    } else {
+        return null;
+    }
+
+    const stale = now >= envelope.softExpiry;
+    return { value, stale, staleFor: stale ? (now - envelope.softExpiry) / 1000 : 0 };
+}
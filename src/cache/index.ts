@@ -38,13 +38,83 @@
  */
 
 import { ProductionEZCache } from './Cache';
+import type { CacheKey, CacheKeyOptions } from './keys';
+import type { MemoizedFunction, MemoizeOptions } from './memoize';
+import type { CacheMethodDecorator, CachedOptions, InvalidatesCacheOptions } from './decorators';
+
+let defaultCache: ProductionEZCache | null = null;
 
 // Create and export the production-grade cache instance
-export const cache = new ProductionEZCache();
+// Built on first use, so importing the package never resolves the environment's configuration
+export const cache: ProductionEZCache = new Proxy(Object.create(ProductionEZCache.prototype) as ProductionEZCache, {
+    get: (_, property) => Reflect.get(defaultCache ??= new ProductionEZCache(), property),
+    set: (_, property, value) => Reflect.set(defaultCache ??= new ProductionEZCache(), property, value),
+    has: (_, property) => Reflect.has(defaultCache ??= new ProductionEZCache(), property)
+});
+
+/**
+ * 🔑 Define a typed, parameterized key on the default cache instance
+ * Use cache.defineKey() on instances from createCache().
+ * 
+ * @example
+ * const userPosts = defineCacheKey('user/:id/posts', { ttl: 300, tags: ['posts'] });
+ * userPosts({ id: 42 }); // 'user:42:posts'
+ * await userPosts.fetch({ id: 42 }, ({ id }) => db.post.findMany({ where: { userId: id } }));
+ * await userPosts.refresh({ id: 42 }, fetcher);
+ */
+export function defineCacheKey<P extends string>(pattern: P, options?: CacheKeyOptions<P>): CacheKey<P> {
+    return cache.defineKey(pattern, options);
+}
+
+/**
+ * 🧮 Cache the results of an async function on the default cache instance
+ * Use cache.memoize() on instances from createCache().
+ * 
+ * @example
+ * const getUserPosts = memoize((userId: number, page: number) => repo.posts(userId, page), {
+ *   keyPrefix: 'user-posts',
+ *   ttl: 300
+ * });
+ * await getUserPosts(42, 1);
+ * await getUserPosts.refresh(42, 1);
+ */
+export function memoize<A extends unknown[], R>(fn: (...args: A) => Promise<R>, options: MemoizeOptions<A>): MemoizedFunction<A, R> {
+    return cache.memoize(fn, options);
+}
+
+/**
+ * 🎀 Cache an async method's results on the default cache instance
+ * Use cache.cached() for instances from createCache().
+ * 
+ * @example
+ * class UserService {
+ *   @Cached({ key: 'user:{0}', ttl: 300, tags: ['users'] })
+ *   async getUser(id: number): Promise<User> { ... }
+ * }
+ */
+export function Cached(options: CachedOptions = {}): CacheMethodDecorator {
+    return cache.cached(options);
+}
+
+/**
+ * 🎀 Invalidate tags and/or keys on the default cache instance once a write method resolves
+ * Use cache.invalidatesCache() for instances from createCache().
+ * 
+ * @example
+ * class UserService {
+ *   @InvalidatesCache({ tags: ['users'], keys: ['user:{0}'] })
+ *   async updateUser(id: number, data: UserInput): Promise<User> { ... }
+ * }
+ */
+export function InvalidatesCache(options: InvalidatesCacheOptions): CacheMethodDecorator {
+    return cache.invalidatesCache(options);
+}
 
 // Named exports for advanced usage
-export { ProductionEZCache } from './Cache';
-export { CACHE_CONFIG } from './config';
+export { ProductionEZCache, createCache } from './Cache';
+export { CACHE_CONFIG, CONFIG_HELPERS, getDefaultConfig, resolveCacheConfig } from './config';
+export type { CacheConfig, ConfigSource } from './config';
+export { CacheConfigError, validateCacheConfig, loadConfigFile, CONFIG_SCHEMA } from './config-loader';
 export type {
     SystemStats,
     MemoryStats,
@@ -54,6 +124,30 @@ export type {
     CacheResult,
     CacheOptions,
     SimpleCacheOptions,
+    CacheSchema,
+    UserCacheConfig,
+    CreateCacheOptions,
+    CachePolicyRule,
+    PolicyMatch,
+    RedisDriver,
+    StaleEvent,
+    ConfigChangeEvent,
+    BloomFilterOptions,
+    BloomFilterStats,
+    CacheSerializer,
+    SerializableType,
+    CompressionAlgorithm,
+    CompressionStats,
+    InvalidationResult,
+    ClearAllOptions,
+    ClearAllResult,
+    InvalidationMessage,
+    InvalidationTransport,
+    CacheEvents,
+    CacheStore,
+    StoreEntry,
+    StoreGetOptions,
+    StoreSetOptions,
     CacheItem,
     TrafficData,
     MetricsData
@@ -63,7 +157,30 @@ export type {
 export { ProductionMemoryCache } from './memory';
 export { ProductionTrafficTracker } from './traffic';
 export { ResilientRedis } from './redis';
+export type { RedisClient } from './redis';
+export { TcpRedisClient, connectTcpRedis } from './redis-tcp';
+export type { RedisCommandSender } from './redis-tcp';
+export { createCacheKey } from './keys';
+export type { CacheKey, CacheKeyOptions, CacheKeyParams, CacheKeyParamNames } from './keys';
+export { createMemoized, hashArguments } from './memoize';
+export type { MemoizedFunction, MemoizeOptions } from './memoize';
+export { createCachedDecorator, createInvalidatesDecorator } from './decorators';
+export type { CacheMethodDecorator, CachedOptions, InvalidatesCacheOptions } from './decorators';
 export { PerformanceMetrics } from './metrics';
+export { MemoryStore, RedisStore } from './stores';
+export { ENVELOPE_FORMAT, createEnvelope, isEnvelope, openEnvelope } from './envelope';
+export { CachedNotFoundError, isCachedNotFound, isNotFoundError } from './negative';
+export { BloomFilter, BloomFilterRejectedError } from './bloom';
+export { createSerializer, richSerializer } from './serializer';
+export { EncryptionKeyring, ENCRYPTION_ALGORITHM } from './encryption';
+export type { CacheEnvelope } from './envelope';
+export {
+    InvalidationBus,
+    InProcessTransport,
+    RedisPubSubTransport,
+    RedisStreamTransport
+} from './invalidation';
+export type { PubSubClient } from './invalidation';
 
 // Default export for convenience
 export default cache;
@@ -0,0 +1,257 @@
+/**
+ * 📡 Cross-Instance Invalidation Bus
+ *
+ * Broadcasts invalidations (clear, tags, prefix, flush) to every instance so
+ * their memory layers drop the same entries. Pluggable transports:
+ * - InProcessTransport: same-process hub (tests, multiple caches in one app)
+ * - RedisPubSubTransport: Redis PUBLISH/SUBSCRIBE over a TCP client (ioredis, node-redis)
+ * - RedisStreamTransport: capped Redis stream polled over Upstash REST
+ *
+ * Each instance stamps messages with its own id and ignores them when they come
+ * back, and received invalidations are only applied locally - never re-broadcast.
+ */
+
+import { EventEmitter } from 'events';
+import { getDefaultConfig, type CacheConfig } from './config';
+import type { ResilientRedis } from './redis';
+import type { InvalidationMessage, InvalidationTransport } from './types';
+
+/**
+ * Decode a message received over the wire (JSON string or already-parsed object)
+ */
+function decodeMessage(raw: unknown): InvalidationMessage | null {
+    try {
+        const message = typeof raw === 'string' ? JSON.parse(raw) : raw;
+        return message && typeof message === 'object' && 'origin' in message && 'type' in message ?
+            message as InvalidationMessage : null;
+    } catch {
+        return null;
+    }
+}
+
+// Shared hubs for in-process transports, one per channel
+const inProcessHubs = new Map<string, EventEmitter>();
+
+/**
+ * In-process transport - delivers to every transport on the same channel in this process
+ */
+export class InProcessTransport implements InvalidationTransport {
+    private hub: EventEmitter;
+    private listener: ((message: InvalidationMessage) => void) | null = null;
+
+    constructor(channel = 'default') {
+        let hub = inProcessHubs.get(channel);
+        if (!hub) {
+            hub = new EventEmitter();
+            hub.setMaxListeners(0);
+            inProcessHubs.set(channel, hub);
+        }
+        this.hub = hub;
+    }
+
+    async publish(message: InvalidationMessage): Promise<void> {
+        this.hub.emit('message', message);
+    }
+
+    async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+        await this.close();
+        this.listener = handler;
+        this.hub.on('message', handler);
+    }
+
+    async close(): Promise<void> {
+        if (this.listener) {
+            this.hub.off('message', this.listener);
+            this.listener = null;
+        }
+    }
+}
+
+// Minimal publisher/subscriber shape (node-redis v4 style)
+export interface PubSubClient {
+    publish(channel: string, message: string): Promise<unknown>;
+    subscribe(channel: string, listener: (message: string) => void): Promise<unknown> | unknown;
+    unsubscribe?(channel: string): Promise<unknown> | unknown;
+}
+
+/**
+ * Redis Pub/Sub transport - needs a TCP client (Upstash REST cannot hold a subscription)
+ * Pass two connections: a subscribed connection cannot publish.
+ *
+ * @example
+ * // node-redis v4
+ * const publisher = createClient({ url: process.env.REDIS_URL });
+ * const subscriber = publisher.duplicate();
+ * await Promise.all([publisher.connect(), subscriber.connect()]);
+ * await cache.useInvalidationBus(new RedisPubSubTransport(publisher, subscriber));
+ *
+ * @example
+ * // ioredis - adapt subscribe to the listener style
+ * const sub = new IORedis(process.env.REDIS_URL);
+ * const subscriber = {
+ *   subscribe: (channel, listener) => {
+ *     sub.on('message', (ch, message) => ch === channel && listener(message));
+ *     return sub.subscribe(channel);
+ *   }
+ * };
+ */
+export class RedisPubSubTransport implements InvalidationTransport {
+    private listener: ((raw: string) => void) | null = null;
+
+    constructor(
+        private publisher: Pick<PubSubClient, 'publish'>,
+        private subscriber: Pick<PubSubClient, 'subscribe' | 'unsubscribe'>,
+        private channel = 'ez:invalidations'
+    ) { }
+
+    async publish(message: InvalidationMessage): Promise<void> {
+        await this.publisher.publish(this.channel, JSON.stringify(message));
+    }
+
+    async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+        await this.close();
+
+        const listener = (raw: string): void => {
+            // Replaced or closed - stays silent even on clients without unsubscribe()
+            if (this.listener !== listener) return;
+
+            const message = decodeMessage(raw);
+            if (message) handler(message);
+        };
+        this.listener = listener;
+        await this.subscriber.subscribe(this.channel, listener);
+    }
+
+    async close(): Promise<void> {
+        if (!this.listener) return;
+
+        this.listener = null;
+        await this.subscriber.unsubscribe?.(this.channel);
+    }
+}
+
+/**
+ * Redis stream transport - works over Upstash REST by polling a capped stream
+ * Latency is bounded by pollMs; only messages added after subscribe() are delivered.
+ */
+export class RedisStreamTransport implements InvalidationTransport {
+    private pollTimer: ReturnType<typeof setInterval> | null = null;
+    private lastId: string | null = null; // Last entry seen - null until read from Redis
+    private polling = false;
+    private stream: string;
+    private pollMs: number;
+    private maxLen: number;
+
+    constructor(
+        private redis: ResilientRedis,
+        options: { stream?: string; pollMs?: number; maxLen?: number } = {}
+    ) {
+        this.stream = options.stream ?? 'ez-invalidations';
+        this.pollMs = options.pollMs ?? 1000;
+        this.maxLen = options.maxLen ?? 1000;
+    }
+
+    async publish(message: InvalidationMessage): Promise<void> {
+        await this.redis.streamAdd(this.stream, JSON.stringify(message), this.maxLen);
+    }
+
+    async subscribe(handler: (message: InvalidationMessage) => void): Promise<void> {
+        await this.close();
+
+        // Start after the stream's current last entry, as Redis sees it - the local clock may be off
+        this.lastId = await this.redis.streamLastId(this.stream);
+
+        this.pollTimer = setInterval(async () => {
+            if (this.polling) return; // Previous poll still running
+            this.polling = true;
+
+            try {
+                // Redis was unavailable at subscribe() - start from here
+                if (this.lastId === null) {
+                    this.lastId = await this.redis.streamLastId(this.stream);
+                    return;
+                }
+
+                const entries = await this.redis.streamRead(this.stream, this.lastId);
+                for (const entry of entries) {
+                    this.lastId = entry.id;
+                    const message = decodeMessage(entry.message);
+                    if (message) handler(message);
+                }
+            } finally {
+                this.polling = false;
+            }
+        }, this.pollMs);
+
+        // Polling must not keep the process alive
+        this.pollTimer.unref?.();
+    }
+
+    async close(): Promise<void> {
+        if (this.pollTimer) {
+            clearInterval(this.pollTimer);
+            this.pollTimer = null;
+        }
+    }
+}
+
+/**
+ * Invalidation bus - stamps outgoing messages and filters out this instance's own
+ */
+export class InvalidationBus {
+    readonly instanceId = `${process.pid}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+    constructor(
+        private transport: InvalidationTransport,
+        private config: CacheConfig = getDefaultConfig()
+    ) { }
+
+    /**
+     * Start receiving invalidations from other instances
+     * @param handler - Applies an invalidation to the local memory layer (failures are logged)
+     */
+    async start(handler: (message: InvalidationMessage) => void | Promise<void>): Promise<void> {
+        await this.transport.subscribe(async message => {
+            // Echo prevention - ignore our own broadcasts
+            if (message.origin === this.instanceId) return;
+
+            try {
+                await handler(message);
+            } catch (error) {
+                this.log(`Failed to apply invalidation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+    }
+
+    /**
+     * Broadcast an invalidation to every other instance
+     * Failures are logged, never thrown - the local invalidation already happened
+     */
+    async publish(message: Omit<InvalidationMessage, 'origin' | 'timestamp'>): Promise<void> {
+        try {
+            await this.transport.publish({ ...message, origin: this.instanceId, timestamp: Date.now() });
+        } catch (error) {
+            this.log(`Failed to broadcast invalidation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    /**
+     * Apply a new configuration (e.g. from cache.configure())
+     */
+    updateConfig(config: CacheConfig): void {
+        this.config = config;
+    }
+
+    /**
+     * Stop receiving invalidations
+     */
+    async stop(): Promise<void> {
+        await this.transport.close();
+    }
+
+    private log(message: string): void {
+        if (this.config.ENABLE_LOGGING) {
+            console.log(`[INVALIDATION] ${message}`);
+        }
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * 🔑 Typed Cache Keys
+ *
+ * One definition per kind of key instead of hand-built template strings:
+ * - Patterns use `/` between segments and `:name` for parameters ('user/:id/posts')
+ * - Parameters are checked at compile time; keys are built as 'user:42:posts'
+ * - Parameter values are URI-encoded, so they can never run into another segment
+ */
+
+import type { ProductionEZCache } from './Cache';
+import type { SimpleCacheOptions } from './types';
+
+// 'user/:id/posts' → 'id'
+type SegmentParam<S extends string> = S extends `:${infer Name}` ? Name : never;
+
+/**
+ * Parameter names of a key pattern, e.g. 'org/:orgId/user/:id' → 'orgId' | 'id'
+ */
+export type CacheKeyParamNames<P extends string> =
+    P extends `${infer Head}/${infer Rest}` ? SegmentParam<Head> | CacheKeyParamNames<Rest> : SegmentParam<P>;
+
+/**
+ * Parameters object for a key pattern, e.g. 'user/:id/posts' → { id: string | number }
+ */
+export type CacheKeyParams<P extends string> = { [K in CacheKeyParamNames<P>]: string | number };
+
+/**
+ * Default options for a key - static, or built from the parameters (e.g. for tags)
+ */
+export type CacheKeyOptions<P extends string> = SimpleCacheOptions | ((params: CacheKeyParams<P>) => SimpleCacheOptions);
+
+/**
+ * Typed key definition returned by defineCacheKey() / cache.defineKey()
+ * Call it with the parameters to get the cache key.
+ */
+export interface CacheKey<P extends string> {
+    (params: CacheKeyParams<P>): string;
+
+    /** Pattern the key was defined with */
+    readonly pattern: P;
+
+    /** Cached fetch - the definition's options, overridden by per-call options */
+    fetch<T>(params: CacheKeyParams<P>, fetcher: (params: CacheKeyParams<P>) => Promise<T>, optionsOrTtl?: number | SimpleCacheOptions): Promise<T>;
+
+    /** Clear this key from every tier */
+    clear(params: CacheKeyParams<P>): Promise<void>;
+
+    /** Clear and fetch fresh data */
+    refresh<T>(params: CacheKeyParams<P>, fetcher: (params: CacheKeyParams<P>) => Promise<T>, optionsOrTtl?: number | SimpleCacheOptions): Promise<T>;
+}
+
+/**
+ * Build a typed key definition bound to a cache instance
+ * @param cache - Instance the key reads from and writes to
+ * @param pattern - Key pattern, e.g. 'user/:id/posts'
+ * @param options - Default cache options for the key (optional)
+ */
+export function createCacheKey<P extends string>(cache: ProductionEZCache, pattern: P, options: CacheKeyOptions<P> = {}): CacheKey<P> {
+    const segments = pattern.split('/');
+
+    const build = (params: CacheKeyParams<P>): string => segments
+        .map(segment => {
+            if (!segment.startsWith(':')) return segment;
+
+            const value = (params as Record<string, string | number | undefined>)[segment.slice(1)];
+            if (value === undefined || value === null || value === '') {
+                throw new Error(`Missing parameter "${segment.slice(1)}" for cache key "${pattern}"`);
+            }
+            return encodeURIComponent(String(value));
+        })
+        .join(':');
+
+    // Definition options first, per-call options on top (tags are combined, undefined values skipped)
+    // No options at all stays undefined, so fetch() applies the global traffic threshold
+    const merge = (params: CacheKeyParams<P>, optionsOrTtl?: number | SimpleCacheOptions): SimpleCacheOptions | undefined => {
+        const defaults = typeof options === 'function' ? options(params) : options;
+        const overrides: SimpleCacheOptions = typeof optionsOrTtl === 'number' ? { ttl: optionsOrTtl } :
+            Object.fromEntries(Object.entries(optionsOrTtl ?? {}).filter(([, value]) => value !== undefined));
+        const tags = [...new Set([...(defaults.tags ?? []), ...(overrides.tags ?? [])])];
+        const merged = { ...defaults, ...overrides, ...(tags.length > 0 && { tags }) };
+
+        return Object.keys(merged).length > 0 ? merged : undefined;
+    };
+
+    // Async, so a missing parameter rejects the returned promise instead of throwing
+    return Object.assign(build, {
+        pattern,
+        fetch: async <T>(params: CacheKeyParams<P>, fetcher: (params: CacheKeyParams<P>) => Promise<T>, optionsOrTtl?: number | SimpleCacheOptions) =>
+            cache.fetch(build(params), () => fetcher(params), merge(params, optionsOrTtl)),
+        clear: async (params: CacheKeyParams<P>) => cache.clear(build(params)),
+        refresh: async <T>(params: CacheKeyParams<P>, fetcher: (params: CacheKeyParams<P>) => Promise<T>, optionsOrTtl?: number | SimpleCacheOptions) =>
+            cache.forceRefresh(build(params), () => fetcher(params), merge(params, optionsOrTtl))
+    });
+}
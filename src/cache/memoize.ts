@@ -0,0 +1,112 @@
+/**
+ * 🧮 Memoized Functions
+ *
+ * Wraps an async function so every call goes through cache.fetch():
+ * - Same signature as the wrapped function
+ * - Keys are '<keyPrefix>:<hash of the arguments>' - or '<keyPrefix>:<keyFn(...args)>'
+ * - The hash is stable: object key order doesn't matter, Dates, Maps, Sets and
+ *   BigInts hash by value
+ */
+
+import { createHash } from 'crypto';
+import type { ProductionEZCache } from './Cache';
+import type { SimpleCacheOptions } from './types';
+
+/**
+ * Options for cache.memoize() - cache options plus how keys are built
+ */
+export type MemoizeOptions<A extends unknown[]> = SimpleCacheOptions & {
+    /** Key prefix, e.g. 'product:list' */
+    keyPrefix: string;
+    /** Build the key suffix from the arguments instead of hashing them */
+    keyFn?: (...args: A) => string | number;
+};
+
+/**
+ * Function returned by cache.memoize() / memoize()
+ */
+export interface MemoizedFunction<A extends unknown[], R> {
+    (...args: A): Promise<R>;
+
+    /** Prefix the keys were defined with */
+    readonly keyPrefix: string;
+
+    /** Cache key for a set of arguments */
+    key(...args: A): string;
+
+    /** Clear the cached result for these arguments from every tier */
+    clear(...args: A): Promise<void>;
+
+    /** Clear and call the function again for these arguments */
+    refresh(...args: A): Promise<R>;
+}
+
+// Canonical text for a value - equal values give equal text, whatever the key order
+function canonical(value: unknown, ancestors: Set<object>): string {
+    if (value === undefined) return 'undefined';
+    if (typeof value === 'bigint') return `${value}n`;
+    if (typeof value === 'number') return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        throw new TypeError('Cannot hash function or symbol arguments - pass a keyFn to memoize()');
+    }
+    if (typeof value !== 'object' || value === null) return JSON.stringify(value);
+
+    if (ancestors.has(value)) {
+        throw new TypeError('Cannot hash circular arguments - pass a keyFn to memoize()');
+    }
+    ancestors.add(value);
+
+    try {
+        if (value instanceof Date) return `Date(${Number.isNaN(value.getTime()) ? 'Invalid' : value.toISOString()})`;
+        if (Array.isArray(value)) return `[${value.map(item => canonical(item, ancestors)).join(',')}]`;
+        if (value instanceof Set) return `Set[${Array.from(value, item => canonical(item, ancestors)).sort().join(',')}]`;
+        if (value instanceof Map) {
+            const entries = Array.from(value, ([key, item]) => `${canonical(key, ancestors)}=>${canonical(item, ancestors)}`);
+            return `Map{${entries.sort().join(',')}}`;
+        }
+
+        // Properties set to undefined are left out, as JSON would
+        const entries = Object.keys(value)
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${canonical((value as Record<string, unknown>)[key], ancestors)}`);
+        return `{${entries.join(',')}}`;
+    } finally {
+        ancestors.delete(value);
+    }
+}
+
+/**
+ * Stable hash of function arguments (used for memoized keys)
+ * @throws For function, symbol or circular arguments
+ */
+export function hashArguments(args: unknown[]): string {
+    return createHash('sha1').update(canonical(args, new Set())).digest('hex');
+}
+
+/**
+ * Wrap a function so its results are cached
+ * @param cache - Instance the results are cached in
+ * @param fn - Async function to wrap (bind methods first)
+ * @param options - Key prefix, optional keyFn and cache options
+ */
+export function createMemoized<A extends unknown[], R>(
+    cache: ProductionEZCache,
+    fn: (...args: A) => Promise<R>,
+    options: MemoizeOptions<A>
+): MemoizedFunction<A, R> {
+    const { keyPrefix, keyFn, ...cacheOptions } = options;
+
+    // No cache options at all stays undefined, so fetch() applies the global traffic threshold
+    const fetchOptions = Object.keys(cacheOptions).length > 0 ? cacheOptions : undefined;
+
+    const key = (...args: A): string => `${keyPrefix}:${keyFn ? keyFn(...args) : hashArguments(args)}`;
+
+    // Async, so a key that can't be built (unhashable argument, throwing keyFn) rejects instead of throwing
+    return Object.assign(async (...args: A) => cache.fetch(key(...args), () => fn(...args), fetchOptions), {
+        keyPrefix,
+        key,
+        clear: async (...args: A) => cache.clear(key(...args)),
+        refresh: async (...args: A) => cache.forceRefresh(key(...args), () => fn(...args), fetchOptions)
+    });
+}
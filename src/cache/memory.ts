@@ -2,30 +2,59 @@
  * 🧠 Production Memory Cache
  * 
  * LRU cache with smart eviction, size tracking, and automatic cleanup
+ * Values are stored serialized, so every hit returns a fresh copy - the same
+ * structure a Redis hit would return.
  */
 
-import { CACHE_CONFIG } from './config';
-import type { CacheItem, MemoryStats } from './types';
+import { getDefaultConfig, type CacheConfig } from './config';
+import { richSerializer } from './serializer';
+import type { CacheItem, CacheSerializer, MemoryStats } from './types';
 
 export class ProductionMemoryCache {
     private cache = new Map<string, CacheItem>();
+    private tagIndex = new Map<string, Set<string>>(); // tag → keys
     private totalSize = 0;
     private lastCleanup = Date.now();
 
+    /**
+     * @param config - Resolved configuration (defaults to the env-only getDefaultConfig())
+     * @param serializer - Converts values to the stored text (defaults to richSerializer)
+     */
+    constructor(private config: CacheConfig = getDefaultConfig(), private serializer: CacheSerializer = richSerializer) { }
+
+    /**
+     * Apply a new configuration (e.g. from cache.configure())
+     * Evicts entries until the cache fits a smaller MEMORY_SIZE.
+     * @returns Number of entries evicted
+     */
+    updateConfig(config: CacheConfig): number {
+        this.config = config;
+
+        let evicted = 0;
+        while (this.cache.size > this.config.MEMORY_SIZE && this.evictLRU()) {
+            evicted++;
+        }
+        return evicted;
+    }
+
     /**
      * Store data in memory cache
      * @param key - Cache key
      * @param data - Data to cache
      * @param ttlSeconds - Time to live in seconds
+     * @param staleSeconds - Extra seconds the value is kept as stale after expiry (optional)
+     * @param tags - Tags for group invalidation (optional)
+     * @param version - App data version the value belongs to (optional)
      * @returns Success status
      */
-    set(key: string, data: unknown, ttlSeconds: number): boolean {
+    set(key: string, data: unknown, ttlSeconds: number, staleSeconds = 0, tags: string[] = [], version = ''): boolean {
         try {
-            // Estimate data size
-            const dataSize = this.estimateSize(data);
+            // Serialize up front - values that can't be serialized are not cached
+            const serialized = this.serializer.serialize(data);
+            const dataSize = this.estimateSize(serialized);
 
             // Skip if data is too large
-            if (dataSize > CACHE_CONFIG.MAX_VALUE_SIZE) {
+            if (dataSize > this.config.MAX_VALUE_SIZE) {
                 return false;
             }
 
@@ -33,14 +62,18 @@ export class ProductionMemoryCache {
             this.cleanupExpired();
 
             // Make room if needed
-            while (this.cache.size >= CACHE_CONFIG.MEMORY_SIZE) {
+            while (this.cache.size >= this.config.MEMORY_SIZE) {
                 if (!this.evictLRU()) break;
             }
 
             // Store new item
+            const expires = Date.now() + (Math.min(ttlSeconds, this.config.MEMORY_TTL_MAX) * 1000);
             const item: CacheItem = {
-                data,
-                expires: Date.now() + (Math.min(ttlSeconds, CACHE_CONFIG.MEMORY_TTL_MAX) * 1000),
+                data: serialized,
+                expires,
+                staleUntil: expires + (Math.max(0, staleSeconds) * 1000),
+                tags,
+                version,
                 lastAccess: Date.now(),
                 hitCount: 1,
                 size: dataSize,
@@ -51,11 +84,21 @@ export class ProductionMemoryCache {
             const existingItem = this.cache.get(key);
             if (existingItem) {
                 this.totalSize -= existingItem.size;
+                this.untag(key, existingItem.tags);
             }
 
             this.cache.set(key, item);
             this.totalSize += dataSize;
 
+            for (const tag of tags) {
+                let keys = this.tagIndex.get(tag);
+                if (!keys) {
+                    keys = new Set();
+                    this.tagIndex.set(tag, keys);
+                }
+                keys.add(key);
+            }
+
             return true;
         } catch {
             return false;
@@ -68,13 +111,34 @@ export class ProductionMemoryCache {
      * @returns Cached data or null
      */
     get<T>(key: string): T | null {
+        const entry = this.getEntry<T>(key);
+        if (!entry || entry.stale) return null;
+
+        return entry.data;
+    }
+
+    /**
+     * Get data from memory cache including stale entries
+     * @param key - Cache key
+     * @returns Cached data with staleness info (staleFor = seconds past expiry), or null if missing or past its stale window
+     */
+    getEntry<T>(key: string): { data: T; stale: boolean; staleFor: number; version: string } | null {
         const item = this.cache.get(key);
         if (!item) return null;
 
         const now = Date.now();
 
-        // Check expiry
-        if (now > item.expires) {
+        // Check hard expiry (end of stale window)
+        if (now > item.staleUntil) {
+            this.delete(key);
+            return null;
+        }
+
+        let data: T;
+        try {
+            data = this.serializer.deserialize(item.data) as T;
+        } catch {
+            // A custom type failed to restore the value - treat it as a miss
             this.delete(key);
             return null;
         }
@@ -83,7 +147,20 @@ export class ProductionMemoryCache {
         item.lastAccess = now;
         item.hitCount++;
 
-        return item.data as T;
+        const staleFor = Math.max(0, (now - item.expires) / 1000);
+        return { data, stale: now > item.expires, staleFor, version: item.version };
+    }
+
+    /**
+     * Get remaining lifetime of an entry (including its stale window)
+     * @param key - Cache key
+     * @returns Seconds left, or -2 if the key does not exist
+     */
+    ttl(key: string): number {
+        const item = this.cache.get(key);
+        if (!item || Date.now() > item.staleUntil) return -2;
+
+        return Math.ceil((item.staleUntil - Date.now()) / 1000);
     }
 
     /**
@@ -95,19 +172,75 @@ export class ProductionMemoryCache {
         const item = this.cache.get(key);
         if (item) {
             this.totalSize -= item.size;
+            this.untag(key, item.tags);
             return this.cache.delete(key);
         }
         return false;
     }
 
+    /**
+     * Delete every entry carrying any of the given tags
+     * @param tags - Tags to invalidate
+     * @returns Number of entries removed
+     */
+    deleteByTags(tags: string[]): number {
+        let deleted = 0;
+
+        for (const tag of tags) {
+            const keys = this.tagIndex.get(tag);
+            if (!keys) continue;
+
+            for (const key of Array.from(keys)) {
+                if (this.delete(key)) deleted++;
+            }
+            this.tagIndex.delete(tag);
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Delete every entry whose key starts with a prefix
+     * @param prefix - Key prefix
+     * @returns Number of entries removed
+     */
+    deleteByPrefix(prefix: string): number {
+        let deleted = 0;
+
+        // Single pass over the keys - Map iteration tolerates deleting the current entry
+        for (const key of this.cache.keys()) {
+            if (key.startsWith(prefix) && this.delete(key)) {
+                deleted++;
+            }
+        }
+
+        return deleted;
+    }
+
     /**
      * Clear all cache entries
      */
     clear(): void {
         this.cache.clear();
+        this.tagIndex.clear();
         this.totalSize = 0;
     }
 
+    /**
+     * Remove a key from the tag index
+     */
+    private untag(key: string, tags: string[]): void {
+        for (const tag of tags) {
+            const keys = this.tagIndex.get(tag);
+            if (!keys) continue;
+
+            keys.delete(key);
+            if (keys.size === 0) {
+                this.tagIndex.delete(tag);
+            }
+        }
+    }
+
     /**
      * Get current cache size
      */
@@ -162,7 +295,7 @@ export class ProductionMemoryCache {
         const expiredKeys: string[] = [];
 
         for (const [key, item] of this.cache.entries()) {
-            if (now > item.expires) {
+            if (now > item.staleUntil) {
                 expiredKeys.push(key);
             }
         }
@@ -172,16 +305,12 @@ export class ProductionMemoryCache {
     }
 
     /**
-     * Estimate data size in bytes
-     * @param data - Data to estimate
+     * Size of a serialized value in bytes
+     * @param serialized - Serialized value
      * @returns Size in bytes
      */
-    private estimateSize(data: unknown): number {
-        try {
-            return JSON.stringify(data).length * 2; // Rough UTF-16 estimate
-        } catch {
-            return 1024; // Default 1KB if can't stringify
-        }
+    private estimateSize(serialized: string): number {
+        return Buffer.byteLength(serialized, 'utf8');
     }
 
     /**
@@ -193,9 +322,9 @@ export class ProductionMemoryCache {
 
         return {
             size: this.cache.size,
-            maxSize: CACHE_CONFIG.MEMORY_SIZE,
+            maxSize: this.config.MEMORY_SIZE,
             totalSizeKB: Math.round(this.totalSize / 1024),
-            utilization: Math.round((this.cache.size / CACHE_CONFIG.MEMORY_SIZE) * 100),
+            utilization: Math.round((this.cache.size / this.config.MEMORY_SIZE) * 100),
             expiredItems: items.filter(item => now > item.expires).length,
             avgHitCount: items.length > 0 ?
                 Math.round(items.reduce((sum, item) => sum + item.hitCount, 0) / items.length) : 0,
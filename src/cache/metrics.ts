@@ -4,14 +4,18 @@
  * Tracks cache performance metrics including hit rates and response times
  */
 
-import { CACHE_CONFIG } from './config';
+import { getDefaultConfig, type CacheConfig } from './config';
 import type { MetricsData, PerformanceStats } from './types';
 
 export class PerformanceMetrics {
     private metrics: MetricsData = {
         hits: 0,
         misses: 0,
+        staleHits: 0,
+        coalesced: 0,
         errors: 0,
+        validationFailures: 0,
+        decryptionFailures: 0,
         totalRequests: 0,
         avgResponseTime: 0,
         lastReset: Date.now()
@@ -19,12 +23,24 @@ export class PerformanceMetrics {
 
     private responseTimes: number[] = [];
 
+    /**
+     * @param config - Resolved configuration (defaults to the env-only getDefaultConfig())
+     */
+    constructor(private config: CacheConfig = getDefaultConfig()) { }
+
+    /**
+     * Apply a new configuration (e.g. from cache.configure())
+     */
+    updateConfig(config: CacheConfig): void {
+        this.config = config;
+    }
+
     /**
      * Record a cache hit
      * @param responseTime - Response time in milliseconds
      */
     recordHit(responseTime: number): void {
-        if (!CACHE_CONFIG.ENABLE_METRICS) return;
+        if (!this.config.ENABLE_METRICS) return;
 
         this.metrics.hits++;
         this.metrics.totalRequests++;
@@ -36,23 +52,66 @@ export class PerformanceMetrics {
      * @param responseTime - Response time in milliseconds
      */
     recordMiss(responseTime: number): void {
-        if (!CACHE_CONFIG.ENABLE_METRICS) return;
+        if (!this.config.ENABLE_METRICS) return;
 
         this.metrics.misses++;
         this.metrics.totalRequests++;
         this.recordResponseTime(responseTime);
     }
 
+    /**
+     * Record a stale hit (stale value served while revalidating in background)
+     * @param responseTime - Response time in milliseconds
+     */
+    recordStaleHit(responseTime: number): void {
+        if (!this.config.ENABLE_METRICS) return;
+
+        this.metrics.staleHits++;
+        this.metrics.totalRequests++;
+        this.recordResponseTime(responseTime);
+    }
+
+    /**
+     * Record a coalesced call (a concurrent miss that shared another caller's pending fetch)
+     * @param responseTime - Response time in milliseconds
+     */
+    recordCoalesced(responseTime: number): void {
+        if (!this.config.ENABLE_METRICS) return;
+
+        this.metrics.coalesced++;
+        this.metrics.totalRequests++;
+        this.recordResponseTime(responseTime);
+    }
+
     /**
      * Record an error
      */
     recordError(): void {
-        if (!CACHE_CONFIG.ENABLE_METRICS) return;
+        if (!this.config.ENABLE_METRICS) return;
 
         this.metrics.errors++;
         this.metrics.totalRequests++;
     }
 
+    /**
+     * Record a cached value that failed schema validation (evicted and re-fetched)
+     */
+    recordValidationFailure(): void {
+        if (!this.config.ENABLE_METRICS) return;
+
+        this.metrics.validationFailures++;
+    }
+
+    /**
+     * Record a Redis value that failed decryption or its signature check
+     * Not an error - the read is a miss, so the request itself is already counted once
+     */
+    recordDecryptionFailure(): void {
+        if (!this.config.ENABLE_METRICS) return;
+
+        this.metrics.decryptionFailures++;
+    }
+
     /**
      * Record response time and update average
      * @param time - Response time in milliseconds
@@ -71,22 +130,27 @@ export class PerformanceMetrics {
 
     /**
      * Get comprehensive performance statistics
+     * hitRate counts fresh hits only; stale hits and coalesced calls - also answered
+     * without a fetcher call of their own - are reported as staleHitRate and coalescedRate.
      */
     getStats(): PerformanceStats {
-        const hitRate = this.metrics.totalRequests > 0 ?
-            Math.round((this.metrics.hits / this.metrics.totalRequests) * 100) : 0;
-
-        const errorRate = this.metrics.totalRequests > 0 ?
-            Math.round((this.metrics.errors / this.metrics.totalRequests) * 100) : 0;
-
         return {
             ...this.metrics,
-            hitRate,
-            errorRate,
+            hitRate: this.rate(this.metrics.hits),
+            staleHitRate: this.rate(this.metrics.staleHits),
+            coalescedRate: this.rate(this.metrics.coalesced),
+            errorRate: this.rate(this.metrics.errors),
             avgResponseTime: Math.round(this.metrics.avgResponseTime * 100) / 100
         };
     }
 
+    /**
+     * Share of all requests, as a whole percentage
+     */
+    private rate(count: number): number {
+        return this.metrics.totalRequests > 0 ? Math.round((count / this.metrics.totalRequests) * 100) : 0;
+    }
+
     /**
      * Get detailed response time statistics
      */
@@ -120,7 +184,11 @@ export class PerformanceMetrics {
         this.metrics = {
             hits: 0,
             misses: 0,
+            staleHits: 0,
+            coalesced: 0,
             errors: 0,
+            validationFailures: 0,
+            decryptionFailures: 0,
             totalRequests: 0,
             avgResponseTime: 0,
             lastReset: Date.now()
@@ -134,13 +202,14 @@ export class PerformanceMetrics {
     getEfficiencyScore(): number {
         if (this.metrics.totalRequests === 0) return 0;
 
-        const hitRate = (this.metrics.hits / this.metrics.totalRequests) * 100;
+        // Stale hits and coalesced calls spared the database too
+        const servedRate = ((this.metrics.hits + this.metrics.staleHits + this.metrics.coalesced) / this.metrics.totalRequests) * 100;
         const errorRate = (this.metrics.errors / this.metrics.totalRequests) * 100;
         const responseTimeScore = Math.max(0, 100 - (this.metrics.avgResponseTime / 10)); // Lower is better
 
-        // Weighted score: 60% hit rate, 30% low error rate, 10% response time
+        // Weighted score: 60% served without a fetch, 30% low error rate, 10% response time
         return Math.round(
-            (hitRate * 0.6) +
+            (servedRate * 0.6) +
             ((100 - errorRate) * 0.3) +
             (responseTimeScore * 0.1)
         );
@@ -150,6 +219,6 @@ export class PerformanceMetrics {
      * Check if metrics collection is enabled
      */
     isEnabled(): boolean {
-        return CACHE_CONFIG.ENABLE_METRICS;
+        return this.config.ENABLE_METRICS;
     }
 }
@@ -0,0 +1,73 @@
+/**
+ * 🚫 Negative Caching
+ *
+ * Remembers "nothing here" for a short negativeTtl, so lookups for IDs that
+ * don't exist stop reaching the database:
+ * - Empty results (null, undefined, []) are cached with negativeTtl
+ * - "Not found" errors are cached as a marker and re-thrown on every hit
+ *   as a CachedNotFoundError until the marker expires - or as the app's own
+ *   error, rebuilt by the toError option
+ */
+
+// Stored in place of the value when the fetcher threw a "not found" error
+export interface NotFoundMarker {
+    __ezNotFound: 1;
+    name: string;
+    message: string;
+}
+
+/**
+ * Thrown on a cache hit for a remembered "not found" error
+ * Keeps the original error's name and message (the original object is not stored).
+ * Use isCachedNotFound() to recognize it, or the toError option to throw the app's own error class.
+ */
+export class CachedNotFoundError extends Error {
+    readonly status = 404;
+    readonly cached = true;
+
+    constructor(name: string, message: string) {
+        super(message);
+        this.name = name;
+    }
+}
+
+/**
+ * True for a remembered "not found" error re-thrown on a cache hit
+ * The first miss throws the fetcher's own error; check for both in error handlers.
+ */
+export function isCachedNotFound(error: unknown): error is CachedNotFoundError {
+    if (error instanceof CachedNotFoundError) return true;
+
+    // Another copy of this package (e.g. bundled twice) has its own class
+    const { cached, status } = (typeof error === 'object' && error !== null ? error : {}) as { cached?: unknown; status?: unknown };
+    return error instanceof Error && cached === true && status === 404;
+}
+
+/**
+ * Empty fetcher results that are cached with negativeTtl
+ */
+export function isEmptyResult(value: unknown): boolean {
+    return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Default "not found" check - HTTP 404 errors (status / statusCode) and errors named NotFoundError
+ */
+export function isNotFoundError(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) return false;
+
+    const { status, statusCode, name } = error as { status?: unknown; statusCode?: unknown; name?: unknown };
+    return status === 404 || statusCode === 404 || name === 'NotFoundError';
+}
+
+export function createNotFoundMarker(error: unknown): NotFoundMarker {
+    return {
+        __ezNotFound: 1,
+        name: error instanceof Error ? error.name : 'NotFoundError',
+        message: error instanceof Error ? error.message : 'Not found'
+    };
+}
+
+export function isNotFoundMarker(value: unknown): value is NotFoundMarker {
+    return typeof value === 'object' && value !== null && (value as NotFoundMarker).__ezNotFound === 1;
+}
@@ -0,0 +1,191 @@
+/**
+ * 🔌 TCP Redis Adapter - ioredis / node-redis
+ *
+ * Lets ResilientRedis talk to a self-hosted Redis (REDIS_URL) through the same
+ * client shape as @upstash/redis:
+ * - Plain Redis commands sent through the driver's raw command API
+ * - Non-string values are JSON-encoded on write and decoded on read
+ *   (matching Upstash automatic deserialization)
+ * - Tries ioredis first, then node-redis (`redis` package)
+ */
+
+import type { RedisClient } from './redis';
+
+/**
+ * Sends one raw Redis command, e.g. ['SET', 'key', 'value', 'EX', '60']
+ */
+export type RedisCommandSender = (args: string[]) => Promise<unknown>;
+
+// Encode like Upstash: strings as-is, everything else as JSON
+function encode(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Decode like Upstash: JSON when it parses, raw string otherwise
+function decode(raw: unknown): unknown {
+    if (typeof raw !== 'string') {
+        return raw ?? null;
+    }
+
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+/**
+ * Redis client over any raw command sender
+ * Works with ioredis, node-redis, or an in-process stand-in for tests.
+ *
+ * @example
+ * const client = new TcpRedisClient(args => ioredis.call(args[0], ...args.slice(1)));
+ * const redis = new ResilientRedis({ client });
+ */
+export class TcpRedisClient implements RedisClient {
+    constructor(
+        private send: RedisCommandSender,
+        private onQuit?: () => Promise<unknown>
+    ) { }
+
+    async ping(): Promise<string> {
+        return String(await this.send(['PING']));
+    }
+
+    async get(key: string): Promise<unknown> {
+        return decode(await this.send(['GET', key]));
+    }
+
+    async setex(key: string, ttl: number, value: unknown): Promise<string> {
+        return String(await this.send(['SETEX', key, String(ttl), encode(value)]));
+    }
+
+    async set(key: string, value: unknown, options: { nx?: boolean; ex?: number; px?: number } = {}): Promise<string | null> {
+        const args = ['SET', key, encode(value)];
+        if (options.nx) args.push('NX');
+        if (options.ex) args.push('EX', String(options.ex));
+        if (options.px) args.push('PX', String(options.px));
+
+        const result = await this.send(args);
+        return result === null || result === undefined ? null : String(result);
+    }
+
+    async del(...keys: string[]): Promise<number> {
+        return Number(await this.send(['DEL', ...keys]));
+    }
+
+    async smembers(key: string): Promise<string[]> {
+        const result = await this.send(['SMEMBERS', key]);
+        return Array.isArray(result) ? result.map(String) : [];
+    }
+
+    async eval(script: string, keys: string[], args: unknown[]): Promise<unknown> {
+        return this.send(['EVAL', script, String(keys.length), ...keys, ...args.map(String)]);
+    }
+
+    async exists(key: string): Promise<number> {
+        return Number(await this.send(['EXISTS', key]));
+    }
+
+    async ttl(key: string): Promise<number> {
+        return Number(await this.send(['TTL', key]));
+    }
+
+    async keys(pattern: string): Promise<string[]> {
+        const result = await this.send(['KEYS', pattern]);
+        return Array.isArray(result) ? result.map(String) : [];
+    }
+
+    async scan(cursor: string | number, options: { match?: string; count?: number } = {}): Promise<[string | number, string[]]> {
+        const args = ['SCAN', String(cursor)];
+        if (options.match) args.push('MATCH', options.match);
+        if (options.count) args.push('COUNT', String(options.count));
+
+        const result = await this.send(args);
+        const [nextCursor, keys] = Array.isArray(result) ? result : ['0', []];
+        return [String(nextCursor), Array.isArray(keys) ? keys.map(String) : []];
+    }
+
+    async quit(): Promise<void> {
+        await this.onQuit?.();
+    }
+}
+
+// Rejects after timeoutMs; the timer is cleared either way
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+        return await Promise.race([
+            promise,
+            new Promise<never>((_, reject) => {
+                timer = setTimeout(() => reject(new Error('Connection timeout')), timeoutMs);
+            })
+        ]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Connect to Redis over TCP with whichever driver is installed
+ * The drivers' own reconnects are turned off - ResilientRedis reconnects on its own
+ * schedule - and a client that fails or times out is closed, so nothing keeps retrying.
+ * @param url - redis:// or rediss:// connection URL
+ * @param timeoutMs - Connect timeout in milliseconds
+ * @returns Connected client, or null if neither ioredis nor redis is installed
+ * @throws If the driver is installed but cannot connect in time
+ */
+export async function connectTcpRedis(url: string, timeoutMs: number): Promise<TcpRedisClient | null> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let driver: any = null;
+
+    try {
+        driver = await import('ioredis');
+    } catch {
+        driver = null;
+    }
+
+    if (driver) {
+        const IORedis = driver.default ?? driver;
+        const client = new IORedis(url, {
+            lazyConnect: true,
+            connectTimeout: timeoutMs,
+            maxRetriesPerRequest: 1, // ResilientRedis handles retries via the circuit breaker
+            retryStrategy: () => null // No automatic reconnects
+        });
+        client.on('error', () => { /* Failures surface through commands and the circuit breaker */ });
+
+        try {
+            await withTimeout(client.connect(), timeoutMs);
+        } catch (error) {
+            client.disconnect(); // Also drops a connection that completes after the timeout
+            throw error;
+        }
+
+        return new TcpRedisClient(
+            args => client.call(args[0], ...args.slice(1)),
+            () => client.quit()
+        );
+    }
+
+    try {
+        driver = await import('redis');
+    } catch {
+        return null;
+    }
+
+    const client = driver.createClient({ url, socket: { connectTimeout: timeoutMs, reconnectStrategy: false } });
+    client.on('error', () => { /* Failures surface through commands and the circuit breaker */ });
+
+    try {
+        await withTimeout(client.connect(), timeoutMs);
+    } catch (error) {
+        Promise.resolve(client.disconnect()).catch(() => { /* never connected */ });
+        throw error;
+    }
+
+    return new TcpRedisClient(
+        args => client.sendCommand(args),
+        () => client.quit()
+    );
+}
@@ -5,25 +5,37 @@
  * Features:
  * - Graceful fallback when Redis is not available
  * - Circuit breaker pattern for fault tolerance
- * - Handles missing @upstash/redis package
+ * - Upstash REST (@upstash/redis) or TCP (ioredis / node-redis via REDIS_URL)
+ * - Handles missing client packages
  * - Safe for projects that don't use Redis
  * - Connection pooling and retry logic
  * - Health monitoring and metrics
+ * - Compression of large values, chunking of oversized ones
+ * - Optional AES-GCM encryption of stored values
  */
 
-import { CACHE_CONFIG } from './config';
-import type { RedisStatus } from './types';
+import { splitChunks } from './chunks';
+import { compress, decompress } from './compression';
+import { EncryptionKeyring, type SealInfo } from './encryption';
+import { getDefaultConfig, type CacheConfig } from './config';
+import { connectTcpRedis } from './redis-tcp';
+import type { CompressionAlgorithm, CompressionStats, RedisStatus } from './types';
 
 // Type for Redis client (to avoid import errors if package not installed)
-interface RedisClient {
+export interface RedisClient {
     ping(): Promise<string>;
     get(key: string): Promise<unknown>;
     setex(key: string, ttl: number, value: unknown): Promise<string>;
-    del(key: string): Promise<number>;
+    set(key: string, value: unknown, options?: { nx?: boolean; ex?: number; px?: number }): Promise<string | null>;
+    del(...keys: string[]): Promise<number>;
+    smembers(key: string): Promise<string[]>;
+    eval(script: string, keys: string[], args: unknown[]): Promise<unknown>;
     // Add more Redis methods as needed
     exists(key: string): Promise<number>;
     ttl(key: string): Promise<number>;
     keys(pattern: string): Promise<string[]>;
+    scan(cursor: string | number, options?: { match?: string; count?: number }): Promise<[string | number, string[]]>;
+    quit?(): Promise<unknown>; // TCP clients hold a connection to close
 }
 
 export class ResilientRedis {
@@ -37,6 +49,13 @@ export class ResilientRedis {
     private redisAvailable = false;
     private healthCheckInterval: ReturnType<typeof setInterval> | null = null;
     private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    private providedClient: RedisClient | null;
+    private config: CacheConfig;
+    private keyring: EncryptionKeyring | null = null; // Built from ENCRYPTION_KEYS
+
+    // Clients not yet disconnected - a single exit listener cleans them all up
+    private static live = new Set<ResilientRedis>();
+    private static cleanupAllOnExit = (): void => ResilientRedis.live.forEach(redis => redis.cleanup());
     private operationMetrics = {
         totalOperations: 0,
         successfulOperations: 0,
@@ -44,6 +63,14 @@ export class ResilientRedis {
         avgResponseTime: 0,
         lastOperationTime: 0
     };
+    private compressionMetrics = {
+        compressed: 0,
+        decompressed: 0,
+        originalBytes: 0,
+        compressedBytes: 0,
+        compressTimeMs: 0,
+        decompressTimeMs: 0
+    };
 
     private status: RedisStatus = {
         available: false,
@@ -54,38 +81,60 @@ export class ResilientRedis {
         mode: 'unavailable'
     };
 
-    constructor() {
+    /**
+     * @param options.client - Pre-built client (e.g. TcpRedisClient) used instead of
+     * connecting from configuration; still wrapped in the circuit breaker and timeouts
+     * @param options.config - Resolved configuration (defaults to the env-only getDefaultConfig())
+     */
+    constructor(options: { client?: RedisClient; config?: CacheConfig } = {}) {
+        this.providedClient = options.client ?? null;
+        this.config = options.config ?? getDefaultConfig();
+        this.keyring = this.config.ENCRYPTION_KEYS ? new EncryptionKeyring(this.config.ENCRYPTION_KEYS) : null;
         this.checkRedisAvailability();
         if (this.redisAvailable) {
             this.initializeRedis();
             this.startHealthMonitoring();
         }
 
-        // Cleanup on process exit
-        process.on('exit', () => this.cleanup());
-        process.on('SIGINT', () => this.cleanup());
-        process.on('SIGTERM', () => this.cleanup());
+        // Cleanup on process exit (signals are left to the app - listening would stop them exiting)
+        if (ResilientRedis.live.size === 0) {
+            process.on('exit', ResilientRedis.cleanupAllOnExit);
+        }
+        ResilientRedis.live.add(this);
     }
 
     /**
      * Check if Redis package and configuration are available
      */
     private checkRedisAvailability(): void {
+        if (this.providedClient) {
+            this.redisAvailable = true;
+            return;
+        }
+
         try {
-            // Check if @upstash/redis package is installed
-            require.resolve('@upstash/redis');
+            // Check if the client package for the configured driver is installed
+            if (this.config.REDIS_DRIVER === 'tcp') {
+                try {
+                    require.resolve('ioredis');
+                } catch {
+                    require.resolve('redis');
+                }
+            } else {
+                require.resolve('@upstash/redis');
+            }
 
             // Check if Redis is enabled in config
-            if (!CACHE_CONFIG.ENABLE_REDIS) {
-                if (CACHE_CONFIG.ENABLE_LOGGING) {
+            if (!this.config.ENABLE_REDIS) {
+                if (this.config.ENABLE_LOGGING) {
                     console.log('[REDIS] Disabled in configuration');
                 }
                 return;
             }
 
-            // Check if Redis credentials are provided
-            if (!CACHE_CONFIG.REDIS_URL || !CACHE_CONFIG.REDIS_TOKEN) {
-                if (CACHE_CONFIG.ENABLE_LOGGING) {
+            // Check if Redis credentials are provided (TCP URLs carry their own auth)
+            if (!this.config.REDIS_URL || (this.config.REDIS_DRIVER === 'upstash' && !this.config.REDIS_TOKEN)) {
+                if (this.config.ENABLE_LOGGING) {
                     console.log('[REDIS] Credentials not provided - running in memory-only mode');
                 }
                 return;
@@ -94,7 +143,7 @@ export class ResilientRedis {
             this.redisAvailable = true;
 
         } catch (error) {
-            if (CACHE_CONFIG.ENABLE_LOGGING) {
+            if (this.config.ENABLE_LOGGING) {
                 console.error('[REDIS] Error checking availability:', error);
                 console.log('[REDIS] Package not installed - graceful fallback to memory-only mode');
             }
@@ -119,13 +168,14 @@ export class ResilientRedis {
         this.connectionAttempts++;
 
         try {
-            // Try to dynamically import Redis - this should work at runtime if package is installed
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            let redisModule: any = null;
-            try {
-                redisModule = await import('@upstash/redis');
-            } catch (importError) {
-                this.log('[REDIS] @upstash/redis package not found - running in memory-only mode');
+            const client = await this.createClient();
+            if (client && !this.redisAvailable) {
+                // Disconnected while connecting
+                if (client !== this.providedClient) client.quit?.().catch(() => { /* already closed */ });
+                return;
+            }
+            if (!client) {
+                this.log('[REDIS] Redis client package not found - running in memory-only mode');
                 this.redis = null;
                 this.status.available = false;
                 this.status.mode = 'unavailable';
@@ -133,24 +183,12 @@ export class ResilientRedis {
                 return;
             }
 
-            const { Redis } = redisModule;
-
-            // Create Redis instance with timeout and retry configuration
-            this.redis = new Redis({
-                url: CACHE_CONFIG.REDIS_URL,
-                token: CACHE_CONFIG.REDIS_TOKEN,
-                retry: {
-                    retries: 3,
-                    backoff: (retryCount: number) => Math.exp(retryCount) * 50,
-                },
-                // Set connection timeout
-                automaticDeserialization: true,
-            });
+            this.redis = client;
 
             // Test connection with timeout
             const connectionPromise = this.redis!.ping();
             const timeoutPromise = new Promise((_, reject) =>
-                setTimeout(() => reject(new Error('Connection timeout')), CACHE_CONFIG.REDIS_TIMEOUT)
+                setTimeout(() => reject(new Error('Connection timeout')), this.config.REDIS_TIMEOUT)
             );
 
             await Promise.race([connectionPromise, timeoutPromise]);
@@ -162,6 +200,10 @@ export class ResilientRedis {
             this.log('[REDIS] Connected successfully');
 
         } catch (error) {
+            // Drop a half-open TCP connection before retrying (injected clients are kept)
+            if (this.redis && this.redis !== this.providedClient) {
+                this.redis.quit?.().catch(() => { /* already closed */ });
+            }
             this.redis = null;
             this.isConnected = false;
             this.recordFailure();
@@ -176,6 +218,44 @@ export class ResilientRedis {
         }
     }
 
+    /**
+     * Create the client for the configured driver
+     * @returns null if the driver package is not installed
+     */
+    private async createClient(): Promise<RedisClient | null> {
+        if (this.providedClient) {
+            return this.providedClient;
+        }
+
+        if (this.config.REDIS_DRIVER === 'tcp') {
+            // Times out after REDIS_TIMEOUT and closes a failed client - the driver's own reconnects are off
+            return connectTcpRedis(this.config.REDIS_URL, this.config.REDIS_TIMEOUT);
+        }
+
+        // Try to dynamically import Redis - this should work at runtime if package is installed
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        let redisModule: any = null;
+        try {
+            redisModule = await import('@upstash/redis');
+        } catch (importError) {
+            return null;
+        }
+
+        const { Redis } = redisModule;
+
+        // Create Redis instance with timeout and retry configuration
+        return new Redis({
+            url: this.config.REDIS_URL,
+            token: this.config.REDIS_TOKEN,
+            retry: {
+                retries: 3,
+                backoff: (retryCount: number) => Math.exp(retryCount) * 50,
+            },
+            // Set connection timeout
+            automaticDeserialization: true,
+        });
+    }
+
     /**
      * Get value from Redis with enhanced error handling and metrics
      */
@@ -191,7 +271,7 @@ export class ResilientRedis {
             const result = await Promise.race([
                 this.redis!.get(key),
                 new Promise((_, reject) =>
-                    setTimeout(() => reject(new Error('Timeout')), CACHE_CONFIG.REDIS_TIMEOUT)
+                    setTimeout(() => reject(new Error('Timeout')), this.config.REDIS_TIMEOUT)
                 )
             ]);
 
@@ -206,6 +286,37 @@ export class ResilientRedis {
         }
     }
 
+    /**
+     * Get value together with its remaining TTL (seconds) in a single round trip
+     * Used for stale-while-revalidate checks. TTL is -1 when unknown.
+     */
+    async getWithTtl(key: string): Promise<{ value: unknown; ttl: number }> {
+        if (!this.isAvailable()) {
+            return { value: null, ttl: -1 };
+        }
+
+        const startTime = Date.now();
+        this.operationMetrics.totalOperations++;
+
+        try {
+            const [value, ttl] = await Promise.race([
+                Promise.all([this.redis!.get(key), this.redis!.ttl(key)]),
+                new Promise<never>((_, reject) =>
+                    setTimeout(() => reject(new Error('Timeout')), this.config.REDIS_TIMEOUT)
+                )
+            ]);
+
+            this.recordSuccessfulOperation(startTime);
+            return { value, ttl: typeof ttl === 'number' ? ttl : -1 };
+
+        } catch (error) {
+            this.recordFailedOperation(startTime);
+            this.recordFailure();
+            this.log(`[REDIS] Get operation failed for key "${key}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return { value: null, ttl: -1 };
+        }
+    }
+
     /**
      * Set value in Redis with expiration
      */
@@ -218,7 +329,7 @@ export class ResilientRedis {
             await Promise.race([
                 this.redis!.setex(key, ttl, data),
                 new Promise((_, reject) =>
-                    setTimeout(() => reject(new Error('Timeout')), CACHE_CONFIG.REDIS_TIMEOUT)
+                    setTimeout(() => reject(new Error('Timeout')), this.config.REDIS_TIMEOUT)
                 )
             ]);
 
@@ -231,6 +342,80 @@ export class ResilientRedis {
         }
     }
 
+    /**
+     * Set value only if the key does not exist (SET NX PX)
+     * Building block for distributed locks.
+     * @returns true if set, false if the key already exists, null if Redis is unavailable
+     */
+    async setnx(key: string, data: unknown, ttlMs: number): Promise<boolean | null> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const result = await Promise.race([
+                this.redis!.set(key, data, { nx: true, px: ttlMs }),
+                new Promise<never>((_, reject) =>
+                    setTimeout(() => reject(new Error('Timeout')), this.config.REDIS_TIMEOUT)
+                )
+            ]);
+
+            this.resetCircuit();
+            return result === 'OK';
+
+        } catch (error) {
+            this.recordFailure();
+            this.log(`[REDIS] SETNX failed for key "${key}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        }
+    }
+
+    /**
+     * Delete key only if it still holds the expected value (atomic compare-and-delete)
+     * Used to release a lock without removing one acquired by another instance.
+     */
+    async delIfEquals(key: string, expected: string): Promise<boolean> {
+        if (!this.isAvailable()) {
+            return false;
+        }
+
+        try {
+            const result = await this.redis!.eval(
+                'if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end',
+                [key],
+                [expected]
+            );
+            this.resetCircuit();
+            return result === 1;
+        } catch (error) {
+            this.recordFailure();
+            return false;
+        }
+    }
+
+    /**
+     * Replace a value and return the one it replaced (atomic GET + SET EX)
+     * @returns Previous value, or null if there was none or Redis is unavailable
+     */
+    async getSet(key: string, ttl: number, data: unknown): Promise<unknown> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const previous = await this.redis!.eval(
+                'local previous = redis.call("GET", KEYS[1]) redis.call("SET", KEYS[1], ARGV[1], "EX", ARGV[2]) return previous',
+                [key],
+                [JSON.stringify(data), ttl]
+            );
+            this.resetCircuit();
+            return typeof previous === 'string' ? JSON.parse(previous) : previous ?? null;
+        } catch (error) {
+            this.recordFailure();
+            return null;
+        }
+    }
+
     /**
      * Delete key from Redis
      */
@@ -249,6 +434,215 @@ export class ResilientRedis {
         }
     }
 
+    /**
+     * Delete multiple keys in one command
+     * @returns Number of keys removed (0 if Redis is unavailable)
+     */
+    async delMany(keys: string[]): Promise<number> {
+        if (keys.length === 0 || !this.isAvailable()) {
+            return 0;
+        }
+
+        try {
+            const result = await this.redis!.del(...keys);
+            this.resetCircuit();
+            return typeof result === 'number' ? result : 0;
+        } catch (error) {
+            this.recordFailure();
+            return 0;
+        }
+    }
+
+    /**
+     * Add members to several sets, extending each set's TTL to at least ttlSeconds
+     * Used for tag → key indexes, which must outlive every key they reference.
+     */
+    async addToSets(setKeys: string[], members: string | string[], ttlSeconds: number): Promise<boolean> {
+        if (setKeys.length === 0 || !this.isAvailable()) {
+            return false;
+        }
+
+        try {
+            await this.redis!.eval(
+                'for _, k in ipairs(KEYS) do ' +
+                'for i = 2, #ARGV do redis.call("SADD", k, ARGV[i]) end ' +
+                'if redis.call("TTL", k) < tonumber(ARGV[1]) then redis.call("EXPIRE", k, ARGV[1]) end ' +
+                'end return #KEYS',
+                setKeys,
+                [ttlSeconds, ...(Array.isArray(members) ? members : [members])]
+            );
+            this.resetCircuit();
+            return true;
+        } catch (error) {
+            this.recordFailure();
+            return false;
+        }
+    }
+
+    /**
+     * Remove members from several sets (e.g. keys that no longer exist from tag indexes)
+     */
+    async removeFromSets(setKeys: string[], members: string[]): Promise<boolean> {
+        if (setKeys.length === 0 || members.length === 0 || !this.isAvailable()) {
+            return false;
+        }
+
+        try {
+            await this.redis!.eval(
+                'for _, k in ipairs(KEYS) do ' +
+                'for i = 1, #ARGV do redis.call("SREM", k, ARGV[i]) end ' +
+                'end return #KEYS',
+                setKeys,
+                members
+            );
+            this.resetCircuit();
+            return true;
+        } catch (error) {
+            this.recordFailure();
+            return false;
+        }
+    }
+
+    /**
+     * Set bits to 1 in a bitmap (e.g. a Bloom filter), 1000 offsets per command
+     */
+    async setBits(key: string, offsets: number[]): Promise<boolean> {
+        if (offsets.length === 0 || !this.isAvailable()) {
+            return false;
+        }
+
+        try {
+            for (let i = 0; i < offsets.length; i += 1000) {
+                await this.redis!.eval(
+                    'for _, o in ipairs(ARGV) do redis.call("SETBIT", KEYS[1], o, 1) end return #ARGV',
+                    [key],
+                    offsets.slice(i, i + 1000)
+                );
+            }
+            this.resetCircuit();
+            return true;
+        } catch (error) {
+            this.recordFailure();
+            return false;
+        }
+    }
+
+    /**
+     * Read bits from a bitmap in one command
+     * @returns One flag per offset, or null if Redis is unavailable
+     */
+    async getBits(key: string, offsets: number[]): Promise<boolean[] | null> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const result = await this.redis!.eval(
+                'local r = {} for i, o in ipairs(ARGV) do r[i] = redis.call("GETBIT", KEYS[1], o) end return r',
+                [key],
+                offsets
+            );
+            this.resetCircuit();
+            return Array.isArray(result) ? result.map(bit => Number(bit) === 1) : null;
+        } catch (error) {
+            this.recordFailure();
+            return null;
+        }
+    }
+
+    /**
+     * Append an entry to a capped stream (XADD MAXLEN ~)
+     * @returns Entry id, or null if Redis is unavailable
+     */
+    async streamAdd(stream: string, message: string, maxLen = 1000): Promise<string | null> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const id = await this.redis!.eval(
+                'return redis.call("XADD", KEYS[1], "MAXLEN", "~", ARGV[1], "*", "m", ARGV[2])',
+                [stream],
+                [maxLen, message]
+            );
+            this.resetCircuit();
+            return String(id);
+        } catch (error) {
+            this.recordFailure();
+            return null;
+        }
+    }
+
+    /**
+     * Id of a stream's newest entry ('0-0' for an empty or missing stream)
+     * @returns null if Redis is unavailable
+     */
+    async streamLastId(stream: string): Promise<string | null> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const id = await this.redis!.eval(
+                'local last = redis.call("XREVRANGE", KEYS[1], "+", "-", "COUNT", 1) ' +
+                'if last[1] then return last[1][1] end return "0-0"',
+                [stream],
+                []
+            );
+            this.resetCircuit();
+            return String(id);
+        } catch (error) {
+            this.recordFailure();
+            return null;
+        }
+    }
+
+    /**
+     * Read stream entries added after a given id (exclusive XRANGE)
+     * @returns Entries in order; empty if none or Redis is unavailable
+     */
+    async streamRead(stream: string, afterId: string, count = 100): Promise<Array<{ id: string; message: unknown }>> {
+        if (!this.isAvailable()) {
+            return [];
+        }
+
+        try {
+            const result = await this.redis!.eval(
+                'return redis.call("XRANGE", KEYS[1], "(" .. ARGV[1], "+", "COUNT", ARGV[2])',
+                [stream],
+                [afterId, count]
+            );
+            this.resetCircuit();
+
+            // Lua returns [[id, [field, value, ...]], ...]
+            return (Array.isArray(result) ? result : []).map(([id, fields]: [string, unknown[]]) => ({
+                id: String(id),
+                message: Array.isArray(fields) ? fields[1] : null
+            }));
+        } catch (error) {
+            this.recordFailure();
+            return [];
+        }
+    }
+
+    /**
+     * Get all members of a set
+     */
+    async smembers(key: string): Promise<string[]> {
+        if (!this.isAvailable()) {
+            return [];
+        }
+
+        try {
+            const result = await this.redis!.smembers(key);
+            this.resetCircuit();
+            return Array.isArray(result) ? result : [];
+        } catch (error) {
+            this.recordFailure();
+            return [];
+        }
+    }
+
     /**
      * Check if Redis is available for operations
      */
@@ -259,14 +653,14 @@ export class ResilientRedis {
         }
 
         // If circuit breaker is disabled, always try
-        if (!CACHE_CONFIG.ENABLE_CIRCUIT_BREAKER) {
+        if (!this.config.ENABLE_CIRCUIT_BREAKER) {
             return true;
         }
 
         // Circuit breaker logic
         if (this.circuitOpen) {
             const now = Date.now();
-            if (now - this.lastFailure < CACHE_CONFIG.CIRCUIT_RESET_TIMEOUT) {
+            if (now - this.lastFailure < this.config.CIRCUIT_RESET_TIMEOUT) {
                 return false; // Circuit still open
             } else {
                 // Try to reset circuit
@@ -285,11 +679,11 @@ export class ResilientRedis {
         this.failureCount++;
         this.lastFailure = Date.now();
 
-        if (this.failureCount >= CACHE_CONFIG.CIRCUIT_FAILURE_THRESHOLD) {
+        if (this.failureCount >= this.config.CIRCUIT_FAILURE_THRESHOLD) {
             this.circuitOpen = true;
             this.isConnected = false;
 
-            if (CACHE_CONFIG.ENABLE_LOGGING) {
+            if (this.config.ENABLE_LOGGING) {
                 console.log('[REDIS] Circuit breaker opened - too many failures');
             }
         }
@@ -304,7 +698,7 @@ export class ResilientRedis {
             this.circuitOpen = false;
             this.isConnected = true;
 
-            if (CACHE_CONFIG.ENABLE_LOGGING) {
+            if (this.config.ENABLE_LOGGING) {
                 console.log('[REDIS] Circuit breaker reset - connection restored');
             }
         }
@@ -380,7 +774,7 @@ export class ResilientRedis {
      * Log messages (internal logging method)
      */
     private log(message: string): void {
-        if (CACHE_CONFIG.ENABLE_LOGGING) {
+        if (this.config.ENABLE_LOGGING) {
             console.log(`[${new Date().toISOString()}] ${message}`);
         }
     }
@@ -415,6 +809,7 @@ export class ResilientRedis {
             this.log(`[REDIS] Attempting reconnection (${this.connectionAttempts + 1}/5)`);
             this.initializeRedis();
         }, delay);
+        this.reconnectTimeout.unref?.(); // Must not keep the process alive
     }
 
     /**
@@ -478,6 +873,7 @@ export class ResilientRedis {
                 this.initializeRedis();
             }
         }, 30000);
+        this.healthCheckInterval.unref?.(); // Must not keep the process alive
     }
 
     /**
@@ -496,12 +892,121 @@ export class ResilientRedis {
 
         if (this.redis && this.isConnected) {
             this.log('[REDIS] Cleaning up connection');
-            // Note: Upstash Redis doesn't have explicit close method
+            // TCP clients close their socket; Upstash REST has nothing to close (injected clients are kept)
+            if (this.redis !== this.providedClient) this.redis.quit?.().catch(() => { /* already closed */ });
             this.redis = null;
             this.isConnected = false;
         }
     }
 
+    /**
+     * Apply a new configuration (e.g. from cache.configure())
+     * Timeouts and circuit breaker settings take effect on the next operation;
+     * connection settings (URL, token, driver) need a new ResilientRedis.
+     */
+    updateConfig(config: CacheConfig): void {
+        if (config.ENCRYPTION_KEYS !== this.config.ENCRYPTION_KEYS) {
+            this.keyring = config.ENCRYPTION_KEYS ? new EncryptionKeyring(config.ENCRYPTION_KEYS) : null;
+        }
+        this.config = config;
+    }
+
+    /**
+     * 🔐 Keys for encrypting and signing stored values (null when ENCRYPTION_KEYS is not set)
+     */
+    getKeyring(): EncryptionKeyring | null {
+        return this.keyring;
+    }
+
+    /**
+     * 🔌 Stop health checks and reconnects and close the connection
+     * Operations afterwards report Redis as unavailable (no throw).
+     */
+    disconnect(): void {
+        this.redisAvailable = false;
+        this.cleanup();
+
+        // Also drop a client that is still connecting
+        if (this.redis && this.redis !== this.providedClient) {
+            this.redis.quit?.().catch(() => { /* already closed */ });
+        }
+        this.redis = null;
+        this.isConnected = false;
+        this.updateStatus();
+
+        ResilientRedis.live.delete(this);
+        if (ResilientRedis.live.size === 0) {
+            process.off('exit', ResilientRedis.cleanupAllOnExit);
+        }
+    }
+
+    /**
+     * 🗜️ Prepare a serialized value for storage
+     * Values above COMPRESSION_THRESHOLD are compressed when that makes them smaller,
+     * then encrypted when ENCRYPTION_KEYS is set; payloads still larger than MAX_VALUE_SIZE
+     * are split into chunks of at most that size.
+     * @returns The payload chunks (one for most values), the compression used (null = none)
+     * and the encryption details to record (null = not encrypted)
+     */
+    async packValue(text: string): Promise<{
+        chunks: string[];
+        compression: CompressionAlgorithm | null;
+        seal: Omit<SealInfo, 'mac'> | null;
+    }> {
+        const size = Buffer.byteLength(text, 'utf8');
+        let packed: { payload: string; compression: CompressionAlgorithm | null } = { payload: text, compression: null };
+
+        if (this.config.COMPRESSION !== 'none' && size > this.config.COMPRESSION_THRESHOLD) {
+            const startTime = Date.now();
+            try {
+                const payload = await compress(text, this.config.COMPRESSION);
+                this.compressionMetrics.compressTimeMs += Date.now() - startTime;
+
+                if (payload.length < size) {
+                    packed = { payload, compression: this.config.COMPRESSION };
+                    this.compressionMetrics.compressed++;
+                    this.compressionMetrics.originalBytes += size;
+                    this.compressionMetrics.compressedBytes += payload.length;
+                }
+            } catch (error) {
+                this.log(`[REDIS] Compression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        let seal: Omit<SealInfo, 'mac'> | null = null;
+        if (this.keyring) {
+            const { payload, ...details } = this.keyring.encrypt(packed.payload);
+            packed = { ...packed, payload };
+            seal = details;
+        }
+
+        // Base64 payloads are ASCII, so length is the byte size
+        const storedSize = packed.compression || seal ? packed.payload.length : size;
+        const chunks = storedSize > this.config.MAX_VALUE_SIZE ?
+            splitChunks(packed.payload, this.config.MAX_VALUE_SIZE) :
+            [packed.payload];
+
+        return { chunks, compression: packed.compression, seal };
+    }
+
+    /**
+     * 🗜️ Undo packValue() compression
+     * @returns The serialized value, or null if the payload can't be decompressed
+     */
+    async unpackValue(payload: string, compression: CompressionAlgorithm): Promise<string | null> {
+        const startTime = Date.now();
+        try {
+            const text = await decompress(payload, compression);
+            this.compressionMetrics.decompressed++;
+            return text;
+        } catch (error) {
+            this.log(`[REDIS] Decompression failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        } finally {
+            this.compressionMetrics.decompressTimeMs += Date.now() - startTime;
+        }
+    }
+
     /**
      * Get operation metrics
      */
@@ -512,13 +1017,19 @@ export class ResilientRedis {
         successRate: number;
         avgResponseTime: number;
         lastOperationTime: number;
+        compression: CompressionStats;
     } {
         const successRate = this.operationMetrics.totalOperations > 0 ?
             (this.operationMetrics.successfulOperations / this.operationMetrics.totalOperations) * 100 : 0;
+        const { originalBytes, compressedBytes } = this.compressionMetrics;
 
         return {
             ...this.operationMetrics,
-            successRate: Math.round(successRate * 100) / 100 // Round to 2 decimal places
+            successRate: Math.round(successRate * 100) / 100, // Round to 2 decimal places
+            compression: {
+                ...this.compressionMetrics,
+                ratio: compressedBytes > 0 ? Math.round((originalBytes / compressedBytes) * 100) / 100 : 0
+            }
         };
     }
 
@@ -553,6 +1064,9 @@ export class ResilientRedis {
         }
     }
 
+    /**
+     * @deprecated Runs the blocking KEYS command - use scan() / scanIterator() in production
+     */
     async keys(pattern: string): Promise<string[]> {
         if (!this.isAvailable()) {
             return [];
@@ -566,9 +1080,61 @@ export class ResilientRedis {
             return [];
         }
     }
+
+    /**
+     * Run one cursor-based SCAN step (non-blocking alternative to KEYS)
+     * @param cursor - Cursor from the previous call ('0' to start)
+     * @param pattern - Glob pattern to match
+     * @param count - Hint for keys per step
+     * @returns Next cursor ('0' when done) and the keys found; null if Redis failed mid-scan
+     */
+    async scan(cursor: string, pattern: string, count = 100): Promise<{ cursor: string; keys: string[] } | null> {
+        if (!this.isAvailable()) {
+            return null;
+        }
+
+        try {
+            const [nextCursor, keys] = await Promise.race([
+                this.redis!.scan(cursor, { match: pattern, count }),
+                new Promise<never>((_, reject) =>
+                    setTimeout(() => reject(new Error('Timeout')), this.config.REDIS_TIMEOUT)
+                )
+            ]);
+
+            this.resetCircuit();
+            return { cursor: String(nextCursor), keys: Array.isArray(keys) ? keys : [] };
+        } catch (error) {
+            this.recordFailure();
+            this.log(`[REDIS] SCAN failed for pattern "${pattern}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+            return null;
+        }
+    }
+
+    /**
+     * Iterate over all keys matching a pattern in batches using SCAN
+     * Stops early if Redis becomes unavailable.
+     * 
+     * @example
+     * for await (const batch of redis.scanIterator('ez:user:42:*')) {
+     *   await redis.delMany(batch);
+     * }
+     */
+    async *scanIterator(pattern: string, count = 100): AsyncGenerator<string[]> {
+        let cursor = '0';
+
+        do {
+            const step = await this.scan(cursor, pattern, count);
+            if (!step) return;
+
+            cursor = step.cursor;
+            if (step.keys.length > 0) {
+                yield step.keys;
+            }
+        } while (cursor !== '0');
+    }
 }
 
-// Singleton instance for easy usage
+// Singleton instance for easy usage - created on first call, never on import
 let redisInstance: ResilientRedis | null = null;
 
 export function getRedisClient(): ResilientRedis {
@@ -577,6 +1143,3 @@ export function getRedisClient(): ResilientRedis {
     }
     return redisInstance;
 }
-
-// Default export for convenience
-export const redis = getRedisClient();
@@ -0,0 +1,148 @@
+/**
+ * 🧬 Value Serializer
+ *
+ * Both cache layers store values through the same serializer, so a memory hit
+ * and a Redis hit return identical structures - and never the fetcher's own
+ * object reference. The default is superjson-style: plain JSON, with the types
+ * JSON loses tagged in place:
+ *
+ * ```json
+ * { "at": { "$ez": "Date", "v": "2024-06-01T00:00:00.000Z" }, "total": { "$ez": "BigInt", "v": "42" } }
+ * ```
+ *
+ * Built in: Date, Map, Set, BigInt, Buffer, Uint8Array, RegExp, undefined,
+ * NaN and ±Infinity. Register other classes (e.g. Prisma's Decimal) with
+ * createSerializer({ types }).
+ */
+
+import type { CacheSerializer, SerializableType } from './types';
+
+// Marks a tagged value - plain objects that use this key themselves are escaped
+const TAG = '$ez';
+
+type Tagged = { [TAG]: string; v?: unknown };
+
+function isTagged(value: unknown): value is Tagged {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+        typeof (value as Tagged)[TAG] === 'string';
+}
+
+function encode(value: unknown, types: SerializableType[], ancestors: Set<object>): unknown {
+    // Functions and symbols have no stored form - they come back as undefined
+    if (value === undefined || typeof value === 'function' || typeof value === 'symbol') return { [TAG]: 'undefined' };
+    if (typeof value === 'bigint') return { [TAG]: 'BigInt', v: value.toString() };
+    if (typeof value === 'number' && !Number.isFinite(value)) return { [TAG]: 'Number', v: String(value) };
+    if (typeof value !== 'object' || value === null) return value;
+
+    if (ancestors.has(value)) {
+        throw new TypeError('Cannot serialize a circular structure');
+    }
+    ancestors.add(value);
+
+    try {
+        // Registered types first, so they can take over built-in handling
+        for (const type of types) {
+            if (type.isApplicable(value)) {
+                return { [TAG]: type.name, v: encode(type.serialize(value), types, ancestors) };
+            }
+        }
+
+        if (value instanceof Date) return { [TAG]: 'Date', v: Number.isNaN(value.getTime()) ? null : value.toISOString() };
+        if (value instanceof Map) {
+            return { [TAG]: 'Map', v: Array.from(value, ([key, item]) => [encode(key, types, ancestors), encode(item, types, ancestors)]) };
+        }
+        if (value instanceof Set) return { [TAG]: 'Set', v: Array.from(value, item => encode(item, types, ancestors)) };
+        if (Buffer.isBuffer(value)) return { [TAG]: 'Buffer', v: value.toString('base64') };
+        if (value instanceof Uint8Array) return { [TAG]: 'Uint8Array', v: Buffer.from(value).toString('base64') };
+        if (value instanceof RegExp) return { [TAG]: 'RegExp', v: [value.source, value.flags] };
+        if (Array.isArray(value)) return value.map(item => encode(item, types, ancestors));
+
+        // Other classes with a JSON form (e.g. an unregistered Decimal) keep JSON semantics
+        const { toJSON } = value as { toJSON?: unknown };
+        if (typeof toJSON === 'function') return encode(toJSON.call(value), types, ancestors);
+
+        const encoded: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            encoded[key] = encode(item, types, ancestors);
+        }
+        return TAG in encoded ? { [TAG]: 'Object', v: encoded } : encoded;
+    } finally {
+        ancestors.delete(value);
+    }
+}
+
+function decodeObject(value: Record<string, unknown>, types: Map<string, SerializableType>): Record<string, unknown> {
+    const decoded: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        decoded[key] = decode(item, types);
+    }
+    return decoded;
+}
+
+function decode(value: unknown, types: Map<string, SerializableType>): unknown {
+    if (typeof value !== 'object' || value === null) return value;
+    if (Array.isArray(value)) return value.map(item => decode(item, types));
+    if (!isTagged(value)) return decodeObject(value as Record<string, unknown>, types);
+
+    const { [TAG]: tag, v } = value;
+    switch (tag) {
+        case 'undefined':
+            return undefined;
+        case 'BigInt':
+            return BigInt(v as string);
+        case 'Number':
+            return Number(v);
+        case 'Date':
+            return new Date(v === null ? NaN : v as string);
+        case 'Map':
+            return new Map((v as Array<[unknown, unknown]>).map(([key, item]) => [decode(key, types), decode(item, types)]));
+        case 'Set':
+            return new Set((v as unknown[]).map(item => decode(item, types)));
+        case 'Buffer':
+            return Buffer.from(v as string, 'base64');
+        case 'Uint8Array':
+            return new Uint8Array(Buffer.from(v as string, 'base64'));
+        case 'RegExp':
+            return new RegExp((v as [string, string])[0], (v as [string, string])[1]);
+        case 'Object':
+            return decodeObject(v as Record<string, unknown>, types);
+    }
+
+    const type = types.get(tag);
+    if (!type) {
+        throw new TypeError(`Cannot deserialize unknown type "${tag}"`);
+    }
+    return type.deserialize(decode(v, types));
+}
+
+/**
+ * Build a serializer with extra types
+ * @param options.name - Recorded with every stored value (default 'rich') - entries written
+ * under another name are misses, so rename it when a type's stored form changes
+ * @param options.types - Classes to restore, checked before the built-in types
+ *
+ * @example
+ * const serializer = createSerializer({
+ *   types: [{
+ *     name: 'Decimal',
+ *     isApplicable: (value) => Decimal.isDecimal(value),
+ *     serialize: (value: Decimal) => value.toString(),
+ *     deserialize: (text: string) => new Decimal(text)
+ *   }]
+ * });
+ * const cache = createCache({ serializer });
+ */
+export function createSerializer(options: { name?: string; types?: SerializableType[] } = {}): CacheSerializer {
+    const types = options.types ?? [];
+    const byName = new Map(types.map(type => [type.name, type]));
+
+    return {
+        name: options.name ?? 'rich',
+        serialize: (value) => JSON.stringify(encode(value, types, new Set())),
+        deserialize: (text) => decode(JSON.parse(text), byName)
+    };
+}
+
+// Default serializer for both cache layers
+export const richSerializer = createSerializer();
+
@@ -0,0 +1,347 @@
+/**
+ * 🗄️ Cache Store Adapters
+ *
+ * Built-in CacheStore tiers for ProductionEZCache:
+ * - MemoryStore: wraps ProductionMemoryCache (local, fastest)
+ * - RedisStore: wraps ResilientRedis (shared across instances)
+ *
+ * Implement the CacheStore interface to add your own tiers.
+ */
+
+import { CHUNK_POINTER_SUFFIX, CHUNK_TTL_MARGIN, chunkKeys, createChunkManifest, joinChunks, type ChunkPointer } from './chunks';
+import { isCompressionAlgorithm } from './compression';
+import { ENCRYPTION_ALGORITHM } from './encryption';
+import { createEnvelope, isEnvelope, isEnvelopeCurrent, openEnvelope, type CacheEnvelope } from './envelope';
+import type { ProductionMemoryCache } from './memory';
+import type { ResilientRedis } from './redis';
+import { richSerializer } from './serializer';
+import type {
+    CacheSerializer,
+    CacheStore,
+    StoreEntry,
+    StoreGetOptions,
+    StoreSetOptions,
+    ClearAllOptions
+} from './types';
+
+// Namespace for cache entries in shared stores
+export const KEY_PREFIX = 'ez:';
+
+// Redis sets mapping a tag to the cache keys carrying it
+export const TAG_PREFIX = 'ez-tag:';
+
+/**
+ * Memory tier - local to this process
+ */
+export class MemoryStore implements CacheStore {
+    readonly name = 'memory';
+    readonly shared = false;
+
+    constructor(private memory: ProductionMemoryCache) { }
+
+    async get<T>(key: string, options: Partial<StoreGetOptions> = {}): Promise<StoreEntry<T> | null> {
+        const entry = this.memory.getEntry<T>(key);
+        if (!entry || entry.version !== (options.version ?? '')) return null;
+
+        return { value: entry.data, stale: entry.stale, staleFor: entry.staleFor };
+    }
+
+    async set(key: string, value: unknown, options: StoreSetOptions): Promise<boolean> {
+        // ProductionMemoryCache caps the TTL at MEMORY_TTL_MAX
+        return this.memory.set(key, value, options.ttl, options.graceSeconds, options.tags, options.version);
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.memory.delete(key);
+    }
+
+    async has(key: string): Promise<boolean> {
+        return this.memory.ttl(key) !== -2;
+    }
+
+    async ttl(key: string): Promise<number> {
+        return this.memory.ttl(key);
+    }
+
+    async deleteByTags(tags: string[]): Promise<number> {
+        return this.memory.deleteByTags(tags);
+    }
+
+    async deleteByPrefix(prefix: string): Promise<number> {
+        return this.memory.deleteByPrefix(prefix);
+    }
+
+    async clear(options: ClearAllOptions): Promise<{ deleted: number; batches: number }> {
+        const deleted = this.memory.size();
+        if (!options.dryRun) {
+            this.memory.clear();
+        }
+        return { deleted, batches: 0 };
+    }
+}
+
+/**
+ * Redis tier - shared by all instances
+ * Entries live ttlMultiplier × TTL (default 10x) as a longer-lived backup -
+ * fresh for the requested TTL, stale after it.
+ * Values are serialized (default: richSerializer) into a versioned envelope
+ * (see envelope.ts), compressed above COMPRESSION_THRESHOLD and split into
+ * chunk keys above MAX_VALUE_SIZE (see chunks.ts), and encrypted and signed
+ * when ENCRYPTION_KEYS is set (see encryption.ts); bare values from older
+ * releases are still read unless encryption is on.
+ */
+export class RedisStore implements CacheStore {
+    readonly name = 'redis';
+    readonly shared = true;
+    private ttlMultiplier: number;
+    private serializer: CacheSerializer;
+    private onDecryptionFailure?: (key: string, error: unknown) => void;
+
+    /**
+     * @param options.ttlMultiplier - Redis TTL as a multiple of the requested TTL (default 10)
+     * @param options.serializer - Serializer for stored values (default richSerializer)
+     * @param options.onDecryptionFailure - Called when a value fails decryption or its signature check (read as a miss)
+     */
+    constructor(
+        private redis: ResilientRedis,
+        options: { ttlMultiplier?: number; serializer?: CacheSerializer; onDecryptionFailure?: (key: string, error: unknown) => void } = {}
+    ) {
+        this.ttlMultiplier = options.ttlMultiplier ?? 10;
+        this.serializer = options.serializer ?? richSerializer;
+        this.onDecryptionFailure = options.onDecryptionFailure;
+    }
+
+    async get<T>(key: string, options: StoreGetOptions): Promise<StoreEntry<T> | null> {
+        // Legacy bare values need the remaining TTL to tell fresh from stale
+        const { value: raw, ttl } = options.graceSeconds > 0 ?
+            await this.redis.getWithTtl(key) :
+            { value: await this.redis.get(key), ttl: -1 };
+
+        if (raw === null || raw === undefined) return null;
+
+        // Another data version or an expired envelope is a miss - the next write replaces it
+        if (isEnvelope(raw)) {
+            if (!isEnvelopeCurrent(raw, options.version ?? '') || !this.verify(key, raw)) return null;
+
+            const assembled = raw.chunks ? await this.assemble(key, raw) : raw;
+            const decrypted = assembled && this.decrypt(key, assembled);
+            const envelope = decrypted && await this.decompress(decrypted);
+            return envelope ? openEnvelope<T>(envelope, options.version ?? '', this.serializer) : null;
+        }
+
+        // Bare values predate data versions, so they only match the default version ""
+        // They are unsigned, so they are never trusted once encryption is on
+        if ((options.version ?? '') !== '' || this.redis.getKeyring()) return null;
+
+        // Entries are stored with TTL + grace, so a remaining TTL inside the grace window means stale
+        const stale = options.graceSeconds > 0 && ttl >= 0 && ttl <= options.graceSeconds;
+        return { value: raw as T, stale, staleFor: stale ? options.graceSeconds - ttl : 0 };
+    }
+
+    async set(key: string, value: unknown, options: StoreSetOptions): Promise<boolean> {
+        let serialized: string;
+        try {
+            serialized = this.serializer.serialize(value);
+        } catch {
+            return false; // Not serializable (e.g. circular) - skip caching
+        }
+
+        // Compressed above the threshold, encrypted if configured, split into chunks above MAX_VALUE_SIZE
+        const { chunks, compression, seal } = await this.redis.packValue(serialized);
+        const ttl = options.ttl * this.ttlMultiplier + options.graceSeconds;
+        const manifest = chunks.length > 1 ? createChunkManifest(chunks) : undefined;
+        const keys = manifest ? chunkKeys(key, manifest) : [];
+        const pointerKey = key + CHUNK_POINTER_SUFFIX;
+
+        // Chunks first - the manifest is only written once every chunk is in place
+        if (manifest) {
+            const written = await Promise.all(keys.map((chunkKey, index) =>
+                this.redis.setex(chunkKey, ttl + CHUNK_TTL_MARGIN, { index, data: chunks[index] })
+            ));
+            if (!written.every(Boolean)) {
+                await this.redis.delMany(keys);
+                return false;
+            }
+        }
+
+        // Fresh for the requested TTL - the rest of the longer Redis lifetime is stale, for SWR and staleIfError
+        const envelope = createEnvelope(manifest ? '' : chunks[0], {
+            ttl: options.ttl,
+            graceSeconds: ttl - options.ttl,
+            tags: options.tags,
+            version: options.version ?? '',
+            encoding: [this.serializer.name, compression, seal && ENCRYPTION_ALGORITHM].filter(Boolean).join('+'),
+            chunks: manifest
+        });
+
+        // Signed last, over every field (including the chunk checksum)
+        const keyring = this.redis.getKeyring();
+        if (seal && keyring) {
+            envelope.sealed = { ...seal, mac: '' };
+            envelope.sealed.mac = keyring.sign(key, envelope, seal.keyId);
+        }
+
+        const stored = await this.redis.setex(key, ttl, envelope);
+        if (!stored) {
+            await this.redis.delMany(keys);
+            return false;
+        }
+
+        // Index the key (and its chunks) under its tags so any instance can invalidate it
+        if (options.tags.length > 0) {
+            const members = manifest ? [key, ...keys, pointerKey] : [key];
+            await this.redis.addToSets(options.tags.map(tag => TAG_PREFIX + tag), members, ttl + (manifest ? CHUNK_TTL_MARGIN : 0));
+        }
+
+        // Swap the chunk pointer - the chunks it named before are no longer referenced, so drop them
+        // and their tag index entries (after a plain overwrite, old chunks simply expire)
+        if (manifest) {
+            const pointer: ChunkPointer = { id: manifest.id, count: manifest.count, tags: options.tags };
+            const previous = await this.redis.getSet(pointerKey, ttl + CHUNK_TTL_MARGIN, pointer) as ChunkPointer | null;
+            if (previous?.id && previous.id !== manifest.id) {
+                const replaced = chunkKeys(key, previous);
+                await this.redis.delMany(replaced);
+                await this.redis.removeFromSets((previous.tags ?? []).map(tag => TAG_PREFIX + tag), replaced);
+            }
+        }
+
+        return true;
+    }
+
+    async delete(key: string): Promise<boolean> {
+        // A chunked value takes its chunks with it
+        const raw = await this.redis.get(key);
+        if (isEnvelope(raw) && raw.chunks) {
+            return await this.redis.delMany([key, ...chunkKeys(key, raw.chunks), key + CHUNK_POINTER_SUFFIX]) > 0;
+        }
+
+        return this.redis.del(key);
+    }
+
+    async has(key: string): Promise<boolean> {
+        return this.redis.exists(key);
+    }
+
+    async ttl(key: string): Promise<number> {
+        return this.redis.ttl(key);
+    }
+
+    async deleteByTags(tags: string[]): Promise<number> {
+        let deleted = 0;
+
+        for (const tag of tags) {
+            const tagKey = TAG_PREFIX + tag;
+            const keys = await this.redis.smembers(tagKey);
+            deleted += await this.redis.delMany(keys);
+            await this.redis.del(tagKey);
+        }
+
+        return deleted;
+    }
+
+    async deleteByPrefix(prefix: string): Promise<number> {
+        // Escape glob characters so the prefix is matched literally
+        const pattern = `${prefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+        return (await this.deleteMatching(pattern, {}, 0, 0)).deleted;
+    }
+
+    async clear(options: ClearAllOptions): Promise<{ deleted: number; batches: number }> {
+        let progress = { deleted: 0, batches: 0 };
+
+        for (const pattern of [`${KEY_PREFIX}*`, `${TAG_PREFIX}*`]) {
+            progress = await this.deleteMatching(pattern, options, progress.deleted, progress.batches);
+        }
+
+        return progress;
+    }
+
+    /**
+     * Check the envelope's signature when encryption is on
+     * Unsigned envelopes are rejected silently; bad signatures, unknown keys and
+     * encrypted values without a keyring are reported as decryption failures.
+     */
+    private verify(key: string, envelope: CacheEnvelope): boolean {
+        const keyring = this.redis.getKeyring();
+
+        try {
+            if (!keyring) {
+                if (envelope.sealed) throw new Error('value is encrypted but no encryptionKeys are set');
+                return true;
+            }
+            if (!envelope.sealed) return false;
+
+            keyring.verify(key, envelope);
+            return true;
+        } catch (error) {
+            this.onDecryptionFailure?.(key, error);
+            return false;
+        }
+    }
+
+    /**
+     * Undo encryption ("rich+gzip+aes-256-gcm" → "rich+gzip")
+     * @returns The envelope with its plaintext payload, or null if decryption fails
+     */
+    private decrypt(key: string, envelope: CacheEnvelope): CacheEnvelope | null {
+        const suffix = `+${ENCRYPTION_ALGORITHM}`;
+        if (!envelope.encoding.endsWith(suffix)) return envelope;
+
+        try {
+            const keyring = this.redis.getKeyring();
+            if (!keyring || !envelope.sealed || typeof envelope.payload !== 'string') {
+                throw new Error('value can not be decrypted');
+            }
+
+            const payload = keyring.decrypt(envelope.payload, envelope.sealed);
+            return { ...envelope, encoding: envelope.encoding.slice(0, -suffix.length), payload };
+        } catch (error) {
+            this.onDecryptionFailure?.(key, error);
+            return null;
+        }
+    }
+
+    /**
+     * Read and verify a chunked payload
+     * @returns The envelope with its payload restored, or null if chunks are missing or corrupt
+     */
+    private async assemble(key: string, envelope: CacheEnvelope): Promise<CacheEnvelope | null> {
+        const manifest = envelope.chunks!;
+        const stored = await Promise.all(chunkKeys(key, manifest).map(chunkKey => this.redis.get(chunkKey)));
+        const payload = joinChunks(stored, manifest);
+        if (payload === null) return null;
+
+        return { ...envelope, chunks: undefined, payload };
+    }
+
+    /**
+     * Undo compression ("rich+gzip" → "rich") so the envelope can be opened
+     * @returns The envelope, or null if its payload can't be decompressed
+     */
+    private async decompress(envelope: CacheEnvelope): Promise<CacheEnvelope | null> {
+        const separator = envelope.encoding.lastIndexOf('+');
+        const algorithm = envelope.encoding.slice(separator + 1);
+        if (separator < 0 || !isCompressionAlgorithm(algorithm)) return envelope;
+        if (typeof envelope.payload !== 'string') return null;
+
+        const payload = await this.redis.unpackValue(envelope.payload, algorithm);
+        return payload === null ? null : { ...envelope, encoding: envelope.encoding.slice(0, separator), payload };
+    }
+
+    /**
+     * Delete (or with dryRun, count) every key matching a pattern, in SCAN batches
+     */
+    private async deleteMatching(
+        pattern: string,
+        options: ClearAllOptions,
+        deleted: number,
+        batches: number
+    ): Promise<{ deleted: number; batches: number }> {
+        for await (const batch of this.redis.scanIterator(pattern, options.batchSize)) {
+            deleted += options.dryRun ? batch.length : await this.redis.delMany(batch);
+            batches++;
+            options.onProgress?.({ pattern, deleted, batches });
+        }
+
+        return { deleted, batches };
+    }
+}
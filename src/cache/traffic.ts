@@ -4,13 +4,25 @@
  * Tracks API request patterns with memory leak prevention and automatic cleanup
  */
 
-import { CACHE_CONFIG } from './config';
+import { getDefaultConfig, type CacheConfig } from './config';
 import type { TrafficData, TrafficStats } from './types';
 
 export class ProductionTrafficTracker {
     private requests = new Map<string, TrafficData>();
     private lastGlobalCleanup = Date.now();
 
+    /**
+     * @param config - Resolved configuration (defaults to the env-only getDefaultConfig())
+     */
+    constructor(private config: CacheConfig = getDefaultConfig()) { }
+
+    /**
+     * Apply a new configuration (e.g. from cache.configure())
+     */
+    updateConfig(config: CacheConfig): void {
+        this.config = config;
+    }
+
     /**
      * Track a request and return current count
      * @param key - Endpoint identifier
@@ -31,20 +43,20 @@ export class ProductionTrafficTracker {
         }
 
         // Periodic cleanup to prevent memory leaks
-        if (now - data.lastCleanup > CACHE_CONFIG.TRACKER_CLEANUP_MS) {
+        if (now - data.lastCleanup > this.config.TRACKER_CLEANUP_MS) {
             this.cleanupEndpoint(key, data);
             data.lastCleanup = now;
         }
 
         // Global cleanup periodically
-        if (now - this.lastGlobalCleanup > CACHE_CONFIG.TRACKER_CLEANUP_MS * 2) {
+        if (now - this.lastGlobalCleanup > this.config.TRACKER_CLEANUP_MS * 2) {
             this.globalCleanup();
             this.lastGlobalCleanup = now;
         }
 
         // Filter valid requests within window
         data.timestamps = data.timestamps.filter(time =>
-            now - time < CACHE_CONFIG.WINDOW_MS
+            now - time < this.config.WINDOW_MS
         );
 
         // Add current request
@@ -62,7 +74,7 @@ export class ProductionTrafficTracker {
      */
     isHighTraffic(key: string, customThreshold?: number): boolean {
         const count = this.track(key);
-        const threshold = customThreshold || CACHE_CONFIG.TRAFFIC_THRESHOLD;
+        const threshold = customThreshold || this.config.TRAFFIC_THRESHOLD;
         return count >= threshold;
     }
 
@@ -77,7 +89,7 @@ export class ProductionTrafficTracker {
 
         const now = Date.now();
         const validRequests = data.timestamps.filter(time =>
-            now - time < CACHE_CONFIG.WINDOW_MS
+            now - time < this.config.WINDOW_MS
         );
 
         return validRequests.length;
@@ -91,7 +103,7 @@ export class ProductionTrafficTracker {
     private cleanupEndpoint(key: string, data: TrafficData): void {
         const now = Date.now();
         data.timestamps = data.timestamps.filter(time =>
-            now - time < CACHE_CONFIG.WINDOW_MS
+            now - time < this.config.WINDOW_MS
         );
     }
 
@@ -105,7 +117,7 @@ export class ProductionTrafficTracker {
         for (const [key, data] of this.requests.entries()) {
             // Remove endpoints with no recent activity
             if (data.timestamps.length === 0 ||
-                (data.timestamps.length > 0 && now - data.timestamps[data.timestamps.length - 1] > CACHE_CONFIG.TRACKER_CLEANUP_MS)) {
+                (data.timestamps.length > 0 && now - data.timestamps[data.timestamps.length - 1] > this.config.TRACKER_CLEANUP_MS)) {
                 inactiveKeys.push(key);
             }
         }
@@ -122,13 +134,13 @@ export class ProductionTrafficTracker {
 
         for (const [key, data] of this.requests.entries()) {
             const recentRequests = data.timestamps.filter(time =>
-                now - time < CACHE_CONFIG.WINDOW_MS
+                now - time < this.config.WINDOW_MS
             );
 
             stats[key] = {
                 currentRequests: recentRequests.length,
                 totalRequests: data.totalRequests,
-                isHighTraffic: recentRequests.length >= CACHE_CONFIG.TRAFFIC_THRESHOLD,
+                isHighTraffic: recentRequests.length >= this.config.TRAFFIC_THRESHOLD,
                 lastActivity: data.timestamps.length > 0 ?
                     new Date(data.timestamps[data.timestamps.length - 1]).toISOString() : null
             };
@@ -137,7 +149,7 @@ export class ProductionTrafficTracker {
         return {
             endpoints: stats,
             trackedEndpoints: this.requests.size,
-            trafficThreshold: CACHE_CONFIG.TRAFFIC_THRESHOLD
+            trafficThreshold: this.config.TRAFFIC_THRESHOLD
         };
     }
 
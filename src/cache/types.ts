@@ -4,11 +4,18 @@
  * All TypeScript interfaces and types for the cache system
  */
 
+import type { CachedNotFoundError } from './negative';
+import type { RedisClient } from './redis';
+
 // Performance metrics interface
 export interface MetricsData {
     hits: number;
     misses: number;
+    staleHits: number;
+    coalesced: number;
     errors: number;
+    validationFailures: number; // Cached values rejected by a schema
+    decryptionFailures: number; // Redis values that failed decryption or signature checks (read as misses)
     totalRequests: number;
     avgResponseTime: number;
     lastReset: number;
@@ -16,11 +23,14 @@ export interface MetricsData {
 
 // Enhanced memory cache item
 export interface CacheItem {
-    data: unknown;
+    data: string; // Serialized value
     expires: number;
+    staleUntil: number; // Stale values may still be served until this time
+    tags: string[];
+    version: string; // App data version the value was written under
     lastAccess: number;
     hitCount: number;
-    size: number; // Approximate size in bytes
+    size: number; // Serialized size in bytes
     createdAt: number;
 }
 
@@ -59,7 +69,9 @@ export interface TrafficStats {
 }
 
 export interface PerformanceStats extends MetricsData {
-    hitRate: number;
+    hitRate: number; // Fresh hits only, % of totalRequests
+    staleHitRate: number; // Stale values served while revalidating, % of totalRequests
+    coalescedRate: number; // Calls that shared another caller's pending fetch, % of totalRequests
     errorRate: number;
 }
 
@@ -90,6 +102,76 @@ export interface CacheOptions {
      * @example false // Respect traffic threshold (normal data)
      */
     forceCaching?: boolean;
+
+    /** 
+     * Stale-while-revalidate window in seconds (optional, defaults to 0 = disabled)
+     * The TTL acts as the soft TTL; TTL + this window is the hard TTL.
+     * Between the two, the stale value is returned immediately and the fetcher
+     * re-runs in the background to refresh the cache.
+     * @default 0
+     * @example 60 // Serve stale data for up to 1 minute while refreshing
+     */
+    staleWhileRevalidate?: number;
+
+    /** 
+     * Stale-if-error window in seconds (optional, defaults to 0 = disabled)
+     * Expired entries are kept for this grace period and served if the fetcher throws,
+     * instead of propagating the database error.
+     * @default 0
+     * @example 3600 // Fall back to data up to 1 hour old during an outage
+     */
+    staleIfError?: number;
+
+    /** 
+     * Called whenever stale data is served for this request (optional)
+     * Useful for setting response headers such as `Warning` or `Age`
+     */
+    onStale?: (event: StaleEvent) => void;
+
+    /** 
+     * Tags for group invalidation via invalidateTags() (optional)
+     * @example ['products', 'category:5']
+     */
+    tags?: string[];
+
+    /** 
+     * Use a Redis lock so only one instance runs the fetcher for this key (optional)
+     * Other instances poll Redis for the result, then fall back to their own fetch
+     * @default CACHE_ENABLE_DISTRIBUTED_LOCK setting
+     */
+    distributedLock?: boolean;
+
+    /** 
+     * Names of the tiers to read and write (optional, defaults to every tier)
+     * An empty list bypasses the cache entirely
+     * @example ['memory'] // Never cache in Redis
+     */
+    tiers?: string[];
+
+    /** 
+     * Validate cached values on read (optional, zod-compatible)
+     * Values that fail are evicted from every tier and fetched again
+     */
+    schema?: CacheSchema;
+
+    /** 
+     * TTL in seconds for empty results and "not found" errors (optional)
+     * 0 caches empty results with the normal TTL and never caches errors
+     * @default CACHE_NEGATIVE_TTL setting (0)
+     */
+    negativeTtl?: number;
+
+    /** 
+     * Decides which fetcher errors mean "not found" (optional)
+     * @default HTTP 404 (status / statusCode) or an error named NotFoundError
+     */
+    isNotFound?: (error: unknown) => boolean;
+
+    /** 
+     * Rebuilds the app's own error on a cached "not found" hit (optional)
+     * @default Throws the CachedNotFoundError
+     */
+    toError?: (cached: CachedNotFoundError) => unknown;
 }
 
 // Simplified cache options - TTL-focused interface
@@ -115,6 +197,330 @@ export interface SimpleCacheOptions {
      * @default false
      */
     forceCaching?: boolean;
+
+    /** 
+     * Stale-while-revalidate window in seconds (optional)
+     * Soft TTL = ttl, hard TTL = ttl + staleWhileRevalidate
+     * @default 0 // Disabled - expired entries are a plain miss
+     * @example 60 // Return stale data instantly and refresh in the background
+     */
+    staleWhileRevalidate?: number;
+
+    /** 
+     * Stale-if-error window in seconds (optional)
+     * Expired entries are kept this long and served when the fetcher throws
+     * @default 0 // Disabled - fetcher errors are rethrown
+     * @example 3600 // Serve up to 1 hour old data if the database is down
+     */
+    staleIfError?: number;
+
+    /** 
+     * Callback fired when stale data is served for this call (optional)
+     * @example (e) => res.setHeader('Warning', '110 - "Response is Stale"')
+     */
+    onStale?: (event: StaleEvent) => void;
+
+    /** 
+     * Tags for group invalidation (optional)
+     * All entries sharing a tag can be dropped at once with invalidateTags()
+     * @example ['products', 'category:5']
+     */
+    tags?: string[];
+
+    /** 
+     * Only one instance fetches on a miss; others wait for its result in Redis (optional)
+     * @default false (or CACHE_ENABLE_DISTRIBUTED_LOCK=true)
+     */
+    distributedLock?: boolean;
+
+    /** 
+     * Restrict caching to these tiers by name (optional)
+     * @default every tier
+     * @example ['memory'] // Keep per-user data out of Redis
+     * @example [] // Never cache
+     */
+    tiers?: string[];
+
+    /** 
+     * Schema checked on every cache hit - anything with zod's parse() or safeParse() (optional)
+     * A value that fails (e.g. old shape after a deploy) is evicted and re-fetched
+     * @example { schema: z.object({ id: z.number(), name: z.string() }) }
+     */
+    schema?: CacheSchema;
+
+    /** 
+     * Negative caching: remember empty results (null, undefined, []) and "not found"
+     * errors for this many seconds instead of the normal TTL (optional)
+     * Cached "not found" errors are re-thrown as CachedNotFoundError on every hit.
+     * @example { ttl: 300, negativeTtl: 30 } // Unknown IDs stop hitting the database for 30s
+     */
+    negativeTtl?: number;
+
+    /** 
+     * Which fetcher errors count as "not found" for negative caching (optional)
+     * @default error.status === 404 || error.statusCode === 404 || error.name === 'NotFoundError'
+     * @example (error) => error instanceof Prisma.NotFoundError
+     */
+    isNotFound?: (error: unknown) => boolean;
+
+    /** 
+     * Rebuilds the app's own error on a cached "not found" hit (optional)
+     * The first miss throws the fetcher's error; later hits throw what this returns,
+     * so error handlers see the same class either way.
+     * @default Throws the CachedNotFoundError (see isCachedNotFound())
+     * @example (cached) => new NotFoundException(cached.message)
+     */
+    toError?: (cached: CachedNotFoundError) => unknown;
+}
+
+/**
+ * Validator for cached values - zod schemas (and most zod-like libraries) fit as-is
+ * safeParse() is preferred when present; parse() is expected to throw on failure.
+ */
+export type CacheSchema<T = unknown> =
+    | { safeParse(value: unknown): { success: true; data: T } | { success: false; error?: unknown } }
+    | { parse(value: unknown): T };
+
+/**
+ * Declarative per-key-pattern cache policy
+ * Rules are checked in order and the first match supplies defaults for fetch().
+ * Precedence: config defaults → matching rule → per-call options (tags are combined).
+ */
+export interface CachePolicyRule {
+    /** Key pattern (without the internal `ez:` prefix) - `*` matches any characters, `?` exactly one */
+    pattern: string;
+    options: SimpleCacheOptions;
+}
+
+// Result of explainPolicy() - which rule applied to a key and the options it resolved to
+export interface PolicyMatch {
+    key: string;
+    rule: CachePolicyRule | null;
+    options: CacheOptions;
+}
+
+// Redis client flavour: Upstash REST, or a TCP driver (ioredis / node-redis)
+export type RedisDriver = 'upstash' | 'tcp';
+
+/**
+ * Per-instance cache configuration (createCache / new ProductionEZCache)
+ * Every field is optional - omitted fields fall back to environment variables and smart defaults.
+ */
+export interface UserCacheConfig {
+    // Redis Configuration (completely optional)
+    enableRedis?: boolean;
+    /** Inferred from redisUrl when omitted (redis:// or rediss:// → 'tcp') */
+    redisDriver?: RedisDriver;
+    redisUrl?: string;
+    redisToken?: string;
+
+    // Memory Configuration
+    enableMemory?: boolean;
+    memorySize?: number;
+
+    // Feature toggles
+    enableLogging?: boolean;
+    enableMetrics?: boolean;
+    enableTrafficDetection?: boolean;
+    enableCircuitBreaker?: boolean;
+    enableDistributedLock?: boolean;
+
+    // Performance tuning
+    trafficThreshold?: number;
+    defaultTtl?: number;
+    cleanupInterval?: number;
+
+    // Limits (milliseconds unless noted)
+    redisTimeout?: number;
+    redisRetries?: number; // Count
+    circuitFailureThreshold?: number; // Failures before the circuit opens
+    circuitResetTimeout?: number;
+    lockTtl?: number;
+    lockWait?: number;
+    lockPoll?: number;
+    maxValueSize?: number; // Bytes
+    windowMs?: number;
+    trackerCleanupMs?: number;
+
+    // Bump to invalidate every entry written under the previous value (e.g. after a data shape change)
+    dataVersion?: string;
+
+    // Default TTL (seconds) for empty results and "not found" errors, 0 = off
+    negativeTtl?: number;
+
+    // Redis values larger than compressionThreshold bytes are compressed
+    compression?: CompressionAlgorithm | 'none';
+    compressionThreshold?: number; // Bytes
+
+    // Encrypt and sign Redis values - 'keyId:base64Key' list (32-byte keys), the first encrypts
+    encryptionKeys?: string;
+
+    // Cache strategy
+    cacheStrategy?: 'aggressive' | 'balanced' | 'conservative' | 'memory-only' | 'custom';
+}
+
+// Options for createCache / new ProductionEZCache
+export interface CreateCacheOptions extends UserCacheConfig {
+    /** Custom ordered list of cache tiers (fastest first) - defaults to memory then Redis */
+    stores?: CacheStore[];
+
+    /** Per-key-pattern policy rules, first match wins (see CachePolicyRule) */
+    policies?: CachePolicyRule[];
+
+    /** Serializer for the built-in memory and Redis tiers (default: richSerializer) */
+    serializer?: CacheSerializer;
+
+    /** Redis client to use instead of connecting from redisUrl (e.g. a TcpRedisClient over the app's ioredis) */
+    redisClient?: RedisClient;
+}
+
+// Compression for large Redis values
+export type CompressionAlgorithm = 'gzip' | 'brotli';
+
+// Redis value compression totals (ResilientRedis.getMetrics().compression)
+export interface CompressionStats {
+    compressed: number; // Values compressed on write
+    decompressed: number; // Values decompressed on read
+    originalBytes: number; // Serialized size of the compressed values
+    compressedBytes: number; // Their stored size
+    ratio: number; // originalBytes / compressedBytes (0 until something is compressed)
+    compressTimeMs: number; // Total time spent compressing
+    decompressTimeMs: number; // Total time spent decompressing
+}
+
+// Converts values to and from the text both cache layers store
+export interface CacheSerializer {
+    /** Recorded with every stored value - entries written by another serializer are misses */
+    readonly name: string;
+    serialize(value: unknown): string;
+    deserialize(text: string): unknown;
+}
+
+// Extra class for createSerializer() to restore (e.g. Prisma's Decimal)
+export interface SerializableType<T = unknown> {
+    /** Tag stored with the value - must be unique and stable */
+    name: string;
+    isApplicable(value: unknown): boolean;
+    /** Convert to something the serializer can store (JSON or another supported type) */
+    serialize(value: T): unknown;
+    deserialize(serialized: unknown): T;
+}
+
+// Resolved per-request cache plan (internal - derived from options and config)
+export interface CachePlan {
+    ttl: number; // Base TTL - each store scales or caps it (Redis keeps 10x, memory caps at MEMORY_TTL_MAX)
+    staleWhileRevalidate: number;
+    staleIfError: number;
+    distributedLock: boolean;
+    tags: string[];
+    tiers: CacheStore[]; // Tiers this request reads and writes
+    schema?: CacheSchema; // Checked on every hit
+    negativeTtl: number; // TTL for empty results and "not found" errors (0 = off)
+    isNotFound: (error: unknown) => boolean;
+    toError?: (cached: CachedNotFoundError) => unknown; // Rebuilds the app's error on a cached "not found" hit
+    onStale?: (event: StaleEvent) => void;
+}
+
+// Number of entries removed from each cache layer
+export interface InvalidationResult {
+    memory: number;
+    redis: number;
+}
+
+// Options for a full namespace flush (clearAll)
+export interface ClearAllOptions {
+    /** Count matching keys without deleting anything */
+    dryRun?: boolean;
+    /** SCAN COUNT hint - keys per Redis batch (default 100) */
+    batchSize?: number;
+    /** Called after every Redis batch */
+    onProgress?: (progress: { pattern: string; deleted: number; batches: number }) => void;
+}
+
+export interface ClearAllResult extends InvalidationResult {
+    batches: number;
+    dryRun: boolean;
+}
+
+// Value read from a cache store, with staleness info
+export interface StoreEntry<T = unknown> {
+    value: T;
+    stale: boolean; // Past its TTL but still inside the grace window
+    staleFor: number; // Seconds past the TTL (0 when fresh)
+}
+
+// Write options passed to every cache store
+export interface StoreSetOptions {
+    ttl: number; // Requested TTL in seconds (stores may scale or cap it)
+    graceSeconds: number; // Extra seconds to keep the value as stale after the TTL
+    tags: string[];
+    version?: string; // App data version to record with the value (default "")
+}
+
+// Read hints passed to cache stores
+export interface StoreGetOptions {
+    graceSeconds: number; // Grace window the entry was written with
+    version?: string; // Current app data version - entries written under another one are misses (default "")
+}
+
+/**
+ * Pluggable cache tier (ProductionEZCache reads tiers in order, writes to all)
+ * Implementations must never throw - report failures as misses / false / 0.
+ */
+export interface CacheStore {
+    /** Tier name used in logs */
+    readonly name: string;
+    /** Shared by all instances (e.g. Redis) vs. local to this process (e.g. memory) */
+    readonly shared: boolean;
+
+    get<T>(key: string, options: StoreGetOptions): Promise<StoreEntry<T> | null>;
+    set(key: string, value: unknown, options: StoreSetOptions): Promise<boolean>;
+    delete(key: string): Promise<boolean>;
+    has(key: string): Promise<boolean>;
+    /** Remaining lifetime in seconds (including grace), -1 if unknown, -2 if missing */
+    ttl(key: string): Promise<number>;
+
+    /** Optional group operations - tiers without them are skipped */
+    deleteByTags?(tags: string[]): Promise<number>;
+    deleteByPrefix?(prefix: string): Promise<number>;
+    clear?(options: ClearAllOptions): Promise<{ deleted: number; batches: number }>;
+}
+
+// Invalidation broadcast between instances
+export interface InvalidationMessage {
+    origin: string; // Sending instance id (used to drop echoes)
+    type: 'keys' | 'tags' | 'prefix' | 'all';
+    values: string[]; // Full keys, tags or key prefixes depending on type
+    timestamp: number;
+}
+
+// Pluggable transport for the invalidation bus
+export interface InvalidationTransport {
+    publish(message: InvalidationMessage): Promise<void>;
+    subscribe(handler: (message: InvalidationMessage) => void): Promise<void>;
+    close(): Promise<void>;
+}
+
+// Emitted when a stale value is served instead of fresh data
+export interface StaleEvent {
+    key: string;
+    reason: 'revalidate' | 'error'; // Background refresh in progress, or fetcher failed
+    source: string; // Name of the tier that served it ('memory', 'redis' or a custom store)
+    staleFor: number; // Seconds past the soft TTL
+    error?: unknown; // Fetcher error (reason = 'error')
+}
+
+// Emitted when cache.configure() changes the live configuration
+export interface ConfigChangeEvent {
+    changes: Record<string, { previous: unknown; current: unknown }>; // By config name, e.g. TRAFFIC_THRESHOLD (credentials redacted)
+    mode: 'HYBRID' | 'MEMORY_ONLY' | 'REDIS_ONLY' | 'DISABLED'; // Cache mode after the change
+    evicted: number; // Memory entries evicted to fit a smaller MEMORY_SIZE
+}
+
+// Cache event listeners (ProductionEZCache.on / off)
+export interface CacheEvents {
+    stale: (event: StaleEvent) => void;
+    'config-changed': (event: ConfigChangeEvent) => void;
 }
 
 // Main cache result interface
@@ -125,6 +531,31 @@ export interface CacheResult<T> {
     isHighTraffic: boolean;
 }
 
+// Options for cache.addBloomFilter()
+export interface BloomFilterOptions {
+    /** Number of ids the filter is sized for - more ids raise the false-positive rate */
+    expectedItems: number;
+    /** Target rate of non-existent ids let through (default 0.01 = 1%) */
+    falsePositiveRate?: number;
+    /** Also keep the filter as a Redis bitmap shared by all instances (default false) */
+    redis?: boolean;
+    /** Returns every existing id, used to seed the filter */
+    load?: () => Promise<Array<string | number>>;
+}
+
+// Bloom filter statistics (getStats().bloom)
+export interface BloomFilterStats {
+    namespace: string;
+    items: number; // Ids added (approximate)
+    bits: number;
+    hashes: number;
+    falsePositiveRate: number; // Configured target
+    estimatedFalsePositiveRate: number; // At the current fill
+    rejected: number; // Lookups answered without the database
+    passed: number;
+    shared: boolean; // Backed by a Redis bitmap
+}
+
 // System statistics interface
 export interface SystemStats {
     system: {
@@ -137,6 +568,7 @@ export interface SystemStats {
     redis: RedisStatus & { enabled: boolean; circuitBreakerEnabled: boolean };
     traffic: TrafficStats;
     performance: PerformanceStats | null;
+    bloom: BloomFilterStats[];
     config: {
         trafficThreshold: number;
         defaultTtl: number;
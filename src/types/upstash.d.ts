@@ -5,6 +5,28 @@ declare module '@upstash/redis' {
         ping(): Promise<string>;
         get(key: string): Promise<unknown>;
         setex(key: string, ttl: number, value: unknown): Promise<string>;
-        del(key: string): Promise<number>;
+        set(key: string, value: unknown, options?: { nx?: boolean; ex?: number; px?: number }): Promise<string | null>;
+        del(...keys: string[]): Promise<number>;
+        smembers(key: string): Promise<string[]>;
+        scan(cursor: string | number, options?: { match?: string; count?: number }): Promise<[string | number, string[]]>;
+        eval(script: string, keys: string[], args: unknown[]): Promise<unknown>;
     }
 }
+
+declare module 'ioredis' {
+    export default class Redis {
+        constructor(url: string, options?: { lazyConnect?: boolean; connectTimeout?: number; maxRetriesPerRequest?: number });
+        connect(): Promise<void>;
+        call(command: string, ...args: string[]): Promise<unknown>;
+        quit(): Promise<string>;
+    }
+}
+
+declare module 'redis' {
+    export function createClient(options?: { url?: string; socket?: { connectTimeout?: number } }): {
+        on(event: 'error', listener: (error: Error) => void): unknown;
+        connect(): Promise<unknown>;
+        sendCommand(args: string[]): Promise<unknown>;
+        quit(): Promise<unknown>;
+    };
+}
@@ -1,4 +1,10 @@
-import { cache, ProductionEZCache } from '../src/cache/index';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import type { AddressInfo, Socket } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { cache, createCache, defineCacheKey, memoize, hashArguments, Cached, InvalidatesCache, CacheConfigError, CACHE_CONFIG, CONFIG_HELPERS, resolveCacheConfig, validateCacheConfig, ProductionEZCache, ProductionMemoryCache, ResilientRedis, TcpRedisClient, connectTcpRedis, InProcessTransport, InvalidationBus, RedisStreamTransport, RedisPubSubTransport, MemoryStore, RedisStore, isEnvelope, CachedNotFoundError, isCachedNotFound, BloomFilter, BloomFilterRejectedError, createSerializer, richSerializer, PerformanceMetrics } from '../src/cache/index';
+import type { CacheStore, StoreEntry, StoreSetOptions, RedisClient, UserCacheConfig } from '../src/cache/index';
 
 describe('@shohan/cache', () => {
     beforeEach(() => {
@@ -67,6 +73,25 @@ describe('@shohan/cache', () => {
             expect(mockFetcher).toHaveBeenCalledTimes(2);
         });
 
+        test('should report counts and keep entries on a dry run', async () => {
+            const mockFetcher = jest.fn().mockResolvedValue({ data: 'test' });
+
+            await cache.fetch('flush-test', mockFetcher, { forceCaching: true });
+
+            const preview = await cache.clearAll({ dryRun: true });
+            expect(preview).toEqual({ memory: 1, redis: 0, batches: 0, dryRun: true });
+
+            await cache.fetch('flush-test', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+
+            const result = await cache.clearAll();
+            expect(result.memory).toBe(1);
+            expect(result.dryRun).toBe(false);
+
+            await cache.fetch('flush-test', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
+
         test('should force refresh data', async () => {
             const mockFetcher = jest.fn()
                 .mockResolvedValueOnce({ data: 'old' })
@@ -83,6 +108,822 @@ describe('@shohan/cache', () => {
         });
     });
 
+    describe('Tag Invalidation', () => {
+        test('should drop every entry with a matching tag', async () => {
+            const productsFetcher = jest.fn().mockResolvedValue(['a', 'b']);
+            const productFetcher = jest.fn().mockResolvedValue({ id: 12 });
+            const userFetcher = jest.fn().mockResolvedValue({ id: 1 });
+
+            await cache.fetch('products', productsFetcher, { forceCaching: true, tags: ['products'] });
+            await cache.fetch('product:12', productFetcher, { forceCaching: true, tags: ['products', 'product:12'] });
+            await cache.fetch('user:1', userFetcher, { forceCaching: true, tags: ['users'] });
+
+            const result = await cache.invalidateTags(['products']);
+            expect(result).toEqual({ memory: 2, redis: 0 });
+
+            await cache.fetch('products', productsFetcher, { forceCaching: true, tags: ['products'] });
+            await cache.fetch('product:12', productFetcher, { forceCaching: true, tags: ['products', 'product:12'] });
+            await cache.fetch('user:1', userFetcher, { forceCaching: true, tags: ['users'] });
+
+            expect(productsFetcher).toHaveBeenCalledTimes(2);
+            expect(productFetcher).toHaveBeenCalledTimes(2);
+            expect(userFetcher).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Prefix Invalidation', () => {
+        test('should clear only entries under the prefix', async () => {
+            const mockFetcher = jest.fn().mockResolvedValue({ data: 'test' });
+
+            await cache.fetch('user:42:profile', mockFetcher, { forceCaching: true });
+            await cache.fetch('user:42:posts', mockFetcher, { forceCaching: true });
+            await cache.fetch('user:420:profile', mockFetcher, { forceCaching: true });
+
+            const result = await cache.clearByPrefix('user:42:');
+            expect(result).toEqual({ memory: 2, redis: 0 });
+
+            await cache.fetch('user:420:profile', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe('Invalidation Bus', () => {
+        test('should evict keys from other instances memory', async () => {
+            const podA = new ProductionEZCache();
+            const podB = new ProductionEZCache();
+            await podA.useInvalidationBus(new InProcessTransport('bus-test'));
+            await podB.useInvalidationBus(new InProcessTransport('bus-test'));
+
+            const fetcherA = jest.fn().mockResolvedValue({ pod: 'a' });
+            const fetcherB = jest.fn().mockResolvedValue({ pod: 'b' });
+            await podA.fetch('shared', fetcherA, { forceCaching: true });
+            await podB.fetch('shared', fetcherB, { forceCaching: true });
+
+            await podA.clear('shared');
+            await podB.fetch('shared', fetcherB, { forceCaching: true });
+
+            expect(fetcherB).toHaveBeenCalledTimes(2);
+        });
+
+        test('should ignore its own broadcasts', async () => {
+            const transport = new InProcessTransport('echo-test');
+            const bus = new InvalidationBus(transport);
+            const handler = jest.fn();
+
+            await bus.start(handler);
+            await bus.publish({ type: 'keys', values: ['ez:echo'] });
+            await new InvalidationBus(new InProcessTransport('echo-test')).publish({ type: 'keys', values: ['ez:other'] });
+            await bus.stop();
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(expect.objectContaining({ values: ['ez:other'] }));
+        });
+
+        test('should log handler failures instead of leaving rejections unhandled', async () => {
+            const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+            const unhandled = jest.fn();
+            process.on('unhandledRejection', unhandled);
+
+            try {
+                const bus = new InvalidationBus(new InProcessTransport('failing-test'), { ...CACHE_CONFIG, ENABLE_LOGGING: true });
+                await bus.start(async () => { throw new Error('delete failed'); });
+                await new InvalidationBus(new InProcessTransport('failing-test')).publish({ type: 'all', values: [] });
+                await new Promise(resolve => setImmediate(resolve));
+                await bus.stop();
+
+                expect(log).toHaveBeenCalledWith('[INVALIDATION] Failed to apply invalidation: delete failed');
+                expect(unhandled).not.toHaveBeenCalled();
+            } finally {
+                process.off('unhandledRejection', unhandled);
+                log.mockRestore();
+            }
+        });
+
+        test('should deliver through a Redis stream despite clock skew', async () => {
+            // The server clock is a minute behind this pod's, so its stream ids are "in the past"
+            const send = createCommandStandIn(-60_000);
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve));
+            const publisher = new RedisStreamTransport(redis, { pollMs: 10 });
+            const subscriber = new RedisStreamTransport(redis, { pollMs: 10 });
+            const handler = jest.fn();
+
+            await publisher.publish({ type: 'keys', values: ['ez:before'], origin: 'pod-a', timestamp: Date.now() });
+            await subscriber.subscribe(handler);
+            await publisher.publish({ type: 'keys', values: ['ez:after'], origin: 'pod-a', timestamp: Date.now() });
+            await new Promise(resolve => setTimeout(resolve, 50));
+            await subscriber.close();
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect(handler).toHaveBeenCalledWith(expect.objectContaining({ values: ['ez:after'] }));
+        });
+
+        test('should deliver once through Redis Pub/Sub after subscribing again', async () => {
+            // Subscriber without unsubscribe() - like the ioredis adapter in the docs
+            const listeners = new Set<(message: string) => void>();
+            const publisher = { publish: async (_channel: string, message: string) => listeners.forEach(listener => listener(message)) };
+            const subscriber = { subscribe: (_channel: string, listener: (message: string) => void) => { listeners.add(listener); } };
+            const transport = new RedisPubSubTransport(publisher, subscriber);
+            const first = jest.fn();
+            const second = jest.fn();
+
+            await transport.subscribe(first);
+            await transport.subscribe(second);
+            await transport.publish({ type: 'tags', values: ['products'], origin: 'pod-a', timestamp: Date.now() });
+
+            expect(first).not.toHaveBeenCalled();
+            expect(second).toHaveBeenCalledTimes(1);
+
+            await transport.close();
+            await transport.publish({ type: 'tags', values: ['products'], origin: 'pod-a', timestamp: Date.now() });
+            expect(second).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Stale-While-Revalidate', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        test('should serve stale data and refresh in background', async () => {
+            const realNow = Date.now();
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(realNow);
+            const mockFetcher = jest.fn()
+                .mockResolvedValueOnce({ version: 1 })
+                .mockResolvedValueOnce({ version: 2 });
+            const options = { ttl: 1, staleWhileRevalidate: 30, forceCaching: true };
+
+            await cache.fetch('swr-test', mockFetcher, options);
+
+            // Past the soft TTL but inside the stale window
+            nowSpy.mockReturnValue(realNow + 2000);
+            const stale = await cache.fetch('swr-test', mockFetcher, options);
+            expect(stale).toEqual({ version: 1 });
+
+            // Let the background refresh settle
+            await new Promise(resolve => setImmediate(resolve));
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+
+            const fresh = await cache.fetch('swr-test', mockFetcher, options);
+            expect(fresh).toEqual({ version: 2 });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test('should treat entries past the hard TTL as a miss', async () => {
+            const realNow = Date.now();
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(realNow);
+            const mockFetcher = jest.fn()
+                .mockResolvedValueOnce({ version: 1 })
+                .mockResolvedValueOnce({ version: 2 });
+            const options = { ttl: 1, staleWhileRevalidate: 5, forceCaching: true };
+
+            await cache.fetch('swr-hard-test', mockFetcher, options);
+
+            nowSpy.mockReturnValue(realNow + 10000);
+            const result = await cache.fetch('swr-hard-test', mockFetcher, options);
+
+            expect(result).toEqual({ version: 2 });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Stale-If-Error', () => {
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        test('should serve stale data when the fetcher throws', async () => {
+            const realNow = Date.now();
+            const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(realNow);
+            const mockFetcher = jest.fn()
+                .mockResolvedValueOnce({ version: 1 })
+                .mockRejectedValueOnce(new Error('Database down'));
+            const onStale = jest.fn();
+            const listener = jest.fn();
+            const options = { ttl: 1, staleIfError: 60, forceCaching: true, onStale };
+
+            cache.on('stale', listener);
+            await cache.fetch('sie-test', mockFetcher, options);
+
+            nowSpy.mockReturnValue(realNow + 5000);
+            const result = await cache.fetch('sie-test', mockFetcher, options);
+            cache.off('stale', listener);
+
+            expect(result).toEqual({ version: 1 });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+            expect(onStale).toHaveBeenCalledWith(expect.objectContaining({
+                key: 'sie-test',
+                reason: 'error',
+                source: 'memory'
+            }));
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        test('should rethrow without calling the fetcher twice when nothing is stale', async () => {
+            const mockFetcher = jest.fn().mockRejectedValue(new Error('Database down'));
+
+            await expect(
+                cache.fetch('sie-empty-test', mockFetcher, { staleIfError: 60, forceCaching: true })
+            ).rejects.toThrow('Database down');
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Request Coalescing', () => {
+        test('should call fetcher once for concurrent misses', async () => {
+            const mockFetcher = jest.fn().mockImplementation(
+                () => new Promise(resolve => setTimeout(() => resolve({ data: 'shared' }), 20))
+            );
+
+            const results = await Promise.all(
+                Array.from({ length: 20 }, () =>
+                    cache.fetch('coalesce-test', mockFetcher, { forceCaching: true })
+                )
+            );
+
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+            results.forEach(result => expect(result).toEqual({ data: 'shared' }));
+        });
+
+        test('should not keep a rejected fetch pending', async () => {
+            const mockFetcher = jest.fn()
+                .mockRejectedValueOnce(new Error('Database error'))
+                .mockResolvedValue({ data: 'recovered' });
+
+            await cache.fetch('coalesce-error-test', mockFetcher, { forceCaching: true }).catch(() => undefined);
+            const result = await cache.fetch('coalesce-error-test', mockFetcher, { forceCaching: true });
+
+            expect(result).toEqual({ data: 'recovered' });
+        });
+    });
+
+    describe('Distributed Lock', () => {
+        test('should report an unavailable lock when Redis is not configured', async () => {
+            const redis = new ResilientRedis();
+
+            await expect(redis.setnx('lock:test', 'token', 1000)).resolves.toBeNull();
+            await expect(redis.delIfEquals('lock:test', 'token')).resolves.toBe(false);
+        });
+
+        test('should fall back to a local fetch without Redis', async () => {
+            const mockFetcher = jest.fn().mockResolvedValue({ data: 'local' });
+
+            const result = await cache.fetch('lock-test', mockFetcher, { forceCaching: true, distributedLock: true });
+
+            expect(result).toEqual({ data: 'local' });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        // Two instances sharing one Redis - the in-process stand-in below
+        const createInstances = async (send: ReturnType<typeof createCommandStandIn>, config: UserCacheConfig = {}) => {
+            const instances = [1, 2].map(() => createCache({ redisClient: new TcpRedisClient(send), lockWait: 1000, lockPoll: 10, ...config }));
+            await new Promise(resolve => setImmediate(resolve)); // Let the connection pings settle
+            return instances;
+        };
+        const lockOptions = { forceCaching: true, distributedLock: true };
+
+        test('should let one instance fetch while the other waits for its result', async () => {
+            const send = createCommandStandIn();
+            const [first, second] = await createInstances(send);
+            const fetcher = jest.fn(async () => {
+                await new Promise(resolve => setTimeout(resolve, 50));
+                return { data: 'shared' };
+            });
+
+            const results = await Promise.all([first.fetch('lock:one', fetcher, lockOptions), second.fetch('lock:one', fetcher, lockOptions)]);
+
+            expect(results).toEqual([{ data: 'shared' }, { data: 'shared' }]);
+            expect(fetcher).toHaveBeenCalledTimes(1);
+            expect(send.mock.calls.filter(([args]) => args[0] === 'SET' && args.includes('NX'))).toHaveLength(2);
+
+            // The winner released its lock with compare-and-delete
+            expect(send).toHaveBeenCalledWith(['EVAL', expect.stringContaining('redis.call("del"'), '1', 'lock:ez:lock:one', expect.any(String)]);
+            await expect(send(['EXISTS', 'lock:ez:lock:one'])).resolves.toBe(0);
+        });
+
+        test('should fetch locally after lockWait and leave a foreign lock alone', async () => {
+            const send = createCommandStandIn();
+            const [waiter] = await createInstances(send, { lockWait: 100 });
+            await send(['SET', 'lock:ez:lock:stuck', 'other-instance', 'NX', 'PX', '5000']);
+            const fetcher = jest.fn().mockResolvedValue({ data: 'local' });
+
+            const startedAt = Date.now();
+            expect(await waiter.fetch('lock:stuck', fetcher, lockOptions)).toEqual({ data: 'local' });
+
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(100);
+            expect(fetcher).toHaveBeenCalledTimes(1);
+            await expect(send(['GET', 'lock:ez:lock:stuck'])).resolves.toBe('other-instance');
+        });
+
+        test('should stop waiting for the lock when the circuit opens', async () => {
+            const standIn = createCommandStandIn();
+            let down = false;
+            const send = jest.fn(async (args: string[]) => {
+                if (down && args[0] !== 'PING') throw new Error('Connection reset');
+                return standIn(args);
+            }) as unknown as ReturnType<typeof createCommandStandIn>;
+            const [waiter] = await createInstances(send, { lockWait: 5000, circuitFailureThreshold: 2 });
+            await standIn(['SET', 'lock:ez:lock:down', 'other-instance', 'NX', 'PX', '10000']);
+            const fetcher = jest.fn().mockResolvedValue({ data: 'degraded' });
+
+            const startedAt = Date.now();
+            const pending = waiter.fetch('lock:down', fetcher, lockOptions);
+            setTimeout(() => { down = true; }, 30);
+
+            expect(await pending).toEqual({ data: 'degraded' });
+            expect(Date.now() - startedAt).toBeLessThan(1000);
+            expect(fetcher).toHaveBeenCalledTimes(1);
+            expect(waiter.getStats().redis.circuitOpen).toBe(true);
+        });
+    });
+
+    // In-process stand-in answering raw Redis commands like a RESP server would
+    // serverClockOffset: how far the server's clock (stream ids) is from this process's
+    const createCommandStandIn = (serverClockOffset = 0) => {
+        const store = new Map<string, { value: string; expiresAt: number }>();
+        const sets = new Map<string, Set<string>>();
+        const streams = new Map<string, Array<[string, string[]]>>();
+        const streamId = (id: string) => id.split('-').map(Number);
+        const isAfter = (id: string, after: string) => {
+            const [ms, seq] = streamId(id);
+            const [afterMs, afterSeq] = streamId(after);
+            return ms > afterMs || (ms === afterMs && seq > afterSeq);
+        };
+
+        // Expired values read as missing
+        const read = (key: string) => {
+            const entry = store.get(key);
+            if (entry && entry.expiresAt <= Date.now()) store.delete(key);
+            return store.get(key)?.value ?? null;
+        };
+
+        return jest.fn(async ([command, ...args]: string[]): Promise<unknown> => {
+            switch (command) {
+                case 'PING':
+                    return 'PONG';
+                case 'GET':
+                    return read(args[0]);
+                case 'SET': {
+                    // SET key value [NX] [PX ms]
+                    if (args.includes('NX') && read(args[0]) !== null) return null;
+                    const px = args.indexOf('PX');
+                    store.set(args[0], { value: args[1], expiresAt: px > 0 ? Date.now() + Number(args[px + 1]) : Infinity });
+                    return 'OK';
+                }
+                case 'SETEX':
+                    store.set(args[0], { value: args[2], expiresAt: Date.now() + Number(args[1]) * 1000 });
+                    return 'OK';
+                case 'DEL':
+                    return args.filter(key => store.delete(key) || sets.delete(key)).length;
+                case 'EXISTS':
+                    return store.has(args[0]) || sets.has(args[0]) ? 1 : 0;
+                case 'SMEMBERS':
+                    return [...(sets.get(args[0]) ?? [])];
+                case 'EVAL': {
+                    // Streams (streamAdd, streamRead, streamLastId): KEYS = [stream]
+                    if (args[0].includes('XADD')) {
+                        const entries = streams.get(args[2]) ?? [];
+                        const last = entries.length > 0 ? streamId(entries[entries.length - 1][0]) : [0, 0];
+                        const now = Date.now() + serverClockOffset;
+                        const id = now > last[0] ? `${now}-0` : `${last[0]}-${last[1] + 1}`;
+                        streams.set(args[2], [...entries, [id, ['m', args[4]]]]);
+                        return id;
+                    }
+                    if (args[0].includes('XREVRANGE')) {
+                        const entries = streams.get(args[2]) ?? [];
+                        return entries.length > 0 ? entries[entries.length - 1][0] : '0-0';
+                    }
+                    if (args[0].includes('XRANGE')) {
+                        return (streams.get(args[2]) ?? []).filter(([id]) => isAfter(id, args[3])).slice(0, Number(args[4]));
+                    }
+
+                    // Lock release (delIfEquals): KEYS = [lock], ARGV = [token]
+                    if (args[0].includes('redis.call("get", KEYS[1]) == ARGV[1]')) {
+                        return read(args[2]) === args[3] && store.delete(args[2]) ? 1 : 0;
+                    }
+
+                    // Tag index cleanup (removeFromSets): KEYS are sets, ARGV = members
+                    if (args[0].includes('SREM')) {
+                        const keys = args.slice(2, 2 + Number(args[1]));
+                        const members = args.slice(2 + keys.length);
+                        keys.forEach(key => members.forEach(member => sets.get(key)?.delete(member)));
+                        return keys.length;
+                    }
+
+                    // Chunk pointer swap (getSet): KEYS = [key], ARGV = [value, ttl]
+                    if (args[0].includes('redis.call("SET", KEYS[1]')) {
+                        const previous = read(args[2]);
+                        store.set(args[2], { value: args[3], expiresAt: Date.now() + Number(args[4]) * 1000 });
+                        return previous;
+                    }
+
+                    // Tag index script (addToSets): KEYS are sets, ARGV = [ttl, ...members]
+                    if (!args[0].includes('SADD')) throw new Error('ERR unsupported script');
+                    const keys = args.slice(2, 2 + Number(args[1]));
+                    const members = args.slice(3 + keys.length);
+                    keys.forEach(key => sets.set(key, new Set([...(sets.get(key) ?? []), ...members])));
+                    return keys.length;
+                }
+                case 'TTL': {
+                    const entry = store.get(args[0]);
+                    return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : -2;
+                }
+                default:
+                    throw new Error(`ERR unknown command '${command}'`);
+            }
+        });
+    };
+
+    describe('TCP Redis Adapter', () => {
+        test('should round-trip values through raw commands', async () => {
+            const send = createCommandStandIn();
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve)); // Let the connection ping settle
+
+            expect(redis.getConnectionStatus().connected).toBe(true);
+            await expect(redis.setex('ez:tcp', 60, { id: 1 })).resolves.toBe(true);
+            await expect(redis.get('ez:tcp')).resolves.toEqual({ id: 1 });
+            await expect(redis.getWithTtl('ez:tcp')).resolves.toEqual({ value: { id: 1 }, ttl: 60 });
+            expect(send).toHaveBeenCalledWith(['SETEX', 'ez:tcp', '60', '{"id":1}']);
+        });
+
+        test('should open the circuit breaker when commands fail', async () => {
+            const send = jest.fn(async ([command]: string[]) => {
+                if (command === 'PING') return 'PONG';
+                throw new Error('Connection reset');
+            });
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve));
+
+            for (let i = 0; i < 3; i++) {
+                await expect(redis.get('ez:down')).resolves.toBeNull();
+            }
+
+            expect(redis.getConnectionStatus().circuitOpen).toBe(true);
+        });
+
+        test('should close the client and not reconnect when connecting fails', async () => {
+            // One server drops every connection, the other accepts and never answers
+            const listen = async (onConnection: (socket: Socket) => void) => {
+                const accepted: Socket[] = [];
+                const server = createServer(socket => {
+                    accepted.push(socket);
+                    onConnection(socket);
+                });
+                await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+                return { server, accepted, url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}` };
+            };
+            const dropping = await listen(socket => socket.destroy());
+            const silent = await listen(socket => socket.resume()); // Reads and ignores commands
+
+            try {
+                await expect(connectTcpRedis(dropping.url, 500)).rejects.toThrow();
+                await expect(connectTcpRedis(silent.url, 100)).rejects.toThrow('Connection timeout');
+                await new Promise(resolve => setTimeout(resolve, 300)); // Longer than the drivers' first retry delay
+
+                expect(dropping.accepted).toHaveLength(1);
+                expect(silent.accepted).toHaveLength(1);
+                expect(silent.accepted[0].destroyed).toBe(true); // Closed by the client
+            } finally {
+                for (const { server, accepted } of [dropping, silent]) {
+                    accepted.forEach(socket => socket.destroy());
+                    await new Promise(resolve => server.close(resolve));
+                }
+            }
+        });
+    });
+
+    describe('Value Envelope', () => {
+        const connect = async () => {
+            const send = createCommandStandIn();
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve)); // Let the connection ping settle
+            return { send, redis, store: new RedisStore(redis) };
+        };
+
+        test('should wrap values in a versioned envelope', async () => {
+            const { redis, store } = await connect();
+            await store.set('ez:wrapped', { id: 1 }, { ttl: 30, graceSeconds: 10, tags: [], version: 'v1' });
+
+            const raw = await redis.get('ez:wrapped') as Record<string, unknown>;
+            expect(isEnvelope(raw)).toBe(true);
+            expect(raw).toMatchObject({ __ez: 1, version: 'v1', encoding: 'rich', tags: [], payload: '{"id":1}' });
+            expect(Number(raw.softExpiry) - Number(raw.createdAt)).toBe(30_000);
+            expect(Number(raw.hardExpiry) - Number(raw.createdAt)).toBe(310_000); // Redis keeps 10x TTL + grace
+
+            await expect(store.get('ez:wrapped', { graceSeconds: 10, version: 'v1' }))
+                .resolves.toEqual({ value: { id: 1 }, stale: false, staleFor: 0 });
+        });
+
+        test('should turn stale after the requested TTL, not the longer Redis lifetime', async () => {
+            const { redis, store } = await connect();
+            await store.set('ez:aging', { id: 3 }, { ttl: 30, graceSeconds: 60, tags: [] });
+            const now = Date.now();
+            const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 45_000);
+
+            try {
+                await expect(store.get('ez:aging', { graceSeconds: 60 })).resolves.toMatchObject({ value: { id: 3 }, stale: true });
+                await expect(redis.ttl('ez:aging')).resolves.toBeGreaterThan(300);
+            } finally {
+                clock.mockRestore();
+            }
+        });
+
+        test('should tell a cached null apart from a miss', async () => {
+            const { store } = await connect();
+            await store.set('ez:nothing', null, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            await expect(store.get('ez:nothing', { graceSeconds: 0 })).resolves.toEqual({ value: null, stale: false, staleFor: 0 });
+            await expect(store.get('ez:missing', { graceSeconds: 0 })).resolves.toBeNull();
+        });
+
+        test('should read legacy bare values and retire them on a data version bump', async () => {
+            const { redis, store } = await connect();
+            await redis.setex('ez:legacy', 60, { id: 2 });
+
+            await expect(store.get('ez:legacy', { graceSeconds: 0 })).resolves.toEqual({ value: { id: 2 }, stale: false, staleFor: 0 });
+            await expect(store.get('ez:legacy', { graceSeconds: 0, version: 'v2' })).resolves.toBeNull();
+        });
+
+        test('should miss entries from a previous data version', async () => {
+            const versioned = createCache({ dataVersion: 'v1' });
+            const mockFetcher = jest.fn().mockResolvedValue({ shape: 'new' });
+
+            await versioned.fetch('versioned', mockFetcher, { forceCaching: true });
+            await versioned.fetch('versioned', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+
+            versioned.configure({ dataVersion: 'v2' });
+            await versioned.fetch('versioned', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('Serialization', () => {
+        const sample = () => ({
+            at: new Date('2024-06-01T00:00:00.000Z'),
+            roles: new Map<string, unknown>([['admin', new Set([1, 2])]]),
+            total: 12345678901234567890n,
+            avatar: Buffer.from('png'),
+            nickname: undefined,
+            ratio: NaN,
+            list: [undefined, -Infinity],
+            $ez: 'user data'
+        });
+
+        test('should round-trip types JSON loses', () => {
+            const restored = richSerializer.deserialize(richSerializer.serialize(sample())) as ReturnType<typeof sample>;
+
+            expect(restored).toEqual(sample());
+            expect(restored.at).toBeInstanceOf(Date);
+            expect(restored.roles.get('admin')).toEqual(new Set([1, 2]));
+            expect(typeof restored.total).toBe('bigint');
+            expect(Buffer.isBuffer(restored.avatar)).toBe(true);
+            expect('nickname' in restored).toBe(true);
+        });
+
+        test('should return identical copies from memory and Redis hits', async () => {
+            const send = createCommandStandIn();
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve));
+            const memory = new MemoryStore(new ProductionMemoryCache());
+            const remote = new RedisStore(redis);
+            const value = sample();
+
+            for (const store of [memory, remote]) {
+                await store.set('ez:rich', value, { ttl: 30, graceSeconds: 0, tags: [] });
+            }
+            const fromMemory = await memory.get<typeof value>('ez:rich');
+            const fromRedis = await remote.get<typeof value>('ez:rich', { graceSeconds: 0 });
+
+            expect(fromMemory?.value).toEqual(fromRedis?.value);
+            expect(fromMemory?.value).toEqual(value);
+            expect(fromMemory?.value).not.toBe(value); // Never the fetcher's own reference
+        });
+
+        test('should restore registered types and miss entries from another serializer', async () => {
+            class Money {
+                constructor(readonly cents: number) { }
+            }
+            const serializer = createSerializer({
+                name: 'with-money',
+                types: [{
+                    name: 'Money',
+                    isApplicable: (value) => value instanceof Money,
+                    serialize: (value: Money) => value.cents,
+                    deserialize: (cents: number) => new Money(cents)
+                }]
+            });
+            const send = createCommandStandIn();
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send) });
+            await new Promise(resolve => setImmediate(resolve));
+
+            await new RedisStore(redis, { serializer }).set('ez:money', { price: new Money(250) }, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            const entry = await new RedisStore(redis, { serializer }).get<{ price: Money }>('ez:money', { graceSeconds: 0 });
+            expect(entry?.value.price).toBeInstanceOf(Money);
+            expect(entry?.value.price.cents).toBe(250);
+            await expect(new RedisStore(redis).get('ez:money', { graceSeconds: 0 })).resolves.toBeNull();
+        });
+
+        test('should skip values that cannot be serialized', async () => {
+            const circular: Record<string, unknown> = {};
+            circular.self = circular;
+            const memory = new ProductionMemoryCache();
+
+            expect(memory.set('ez:circular', circular, 30)).toBe(false);
+            expect(memory.get('ez:circular')).toBeNull();
+        });
+    });
+
+    describe('Compression', () => {
+        const connect = async (config: Partial<typeof CACHE_CONFIG> = {}) => {
+            const redis = new ResilientRedis({ client: new TcpRedisClient(createCommandStandIn()), config: { ...CACHE_CONFIG, ...config } });
+            await new Promise(resolve => setImmediate(resolve));
+            return { redis, store: new RedisStore(redis) };
+        };
+        const catalog = Array.from({ length: 500 }, (_, id) => ({ id, name: `Product ${id}`, tags: ['catalog', 'featured'] }));
+
+        test('should compress values above the threshold', async () => {
+            const { redis, store } = await connect({ COMPRESSION_THRESHOLD: 1024 });
+            await store.set('ez:catalog', catalog, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            const raw = await redis.get('ez:catalog') as { encoding: string; payload: string };
+            expect(raw.encoding).toBe('rich+gzip');
+            expect(raw.payload.length).toBeLessThan(JSON.stringify(catalog).length / 4);
+            await expect(store.get('ez:catalog', { graceSeconds: 0 })).resolves.toEqual({ value: catalog, stale: false, staleFor: 0 });
+
+            const { compression } = redis.getMetrics();
+            expect(compression).toMatchObject({ compressed: 1, decompressed: 1 });
+            expect(compression.ratio).toBeGreaterThan(4);
+        });
+
+        test('should store small values as-is and read any algorithm', async () => {
+            const { redis, store } = await connect({ COMPRESSION: 'brotli', COMPRESSION_THRESHOLD: 1024 });
+            await store.set('ez:small', { id: 1 }, { ttl: 30, graceSeconds: 0, tags: [] });
+            await store.set('ez:large', catalog, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            expect(await redis.get('ez:small')).toMatchObject({ encoding: 'rich', payload: '{"id":1}' });
+            expect(await redis.get('ez:large')).toMatchObject({ encoding: 'rich+brotli' });
+
+            redis.updateConfig({ ...CACHE_CONFIG, COMPRESSION: 'none' });
+            await expect(store.get('ez:large', { graceSeconds: 0 })).resolves.toMatchObject({ value: catalog });
+        });
+
+    });
+
+    describe('Chunked Storage', () => {
+        const connect = async () => {
+            const send = createCommandStandIn();
+            const redis = new ResilientRedis({
+                client: new TcpRedisClient(send),
+                config: { ...CACHE_CONFIG, COMPRESSION: 'none', MAX_VALUE_SIZE: 1024 }
+            });
+            await new Promise(resolve => setImmediate(resolve));
+            return { send, redis, store: new RedisStore(redis) };
+        };
+        const catalog = Array.from({ length: 200 }, (_, id) => ({ id, name: `Produkt ${id} – größer` }));
+        const chunkKeysOf = (send: jest.Mock) => send.mock.calls
+            .filter(([[command, key]]) => command === 'SETEX' && key.includes('#chunk:'))
+            .map(([[, key]]) => key as string);
+
+        test('should split values larger than maxValueSize into chunks', async () => {
+            const { send, redis, store } = await connect();
+            await expect(store.set('ez:catalog', catalog, { ttl: 30, graceSeconds: 0, tags: [] })).resolves.toBe(true);
+
+            const keys = chunkKeysOf(send);
+            expect(keys.length).toBeGreaterThan(5);
+            expect(await redis.get('ez:catalog')).toMatchObject({ payload: '', chunks: { count: keys.length } });
+
+            // Manifest written last
+            const setexKeys = send.mock.calls.filter(([[command]]) => command === 'SETEX').map(([[, key]]) => key);
+            expect(setexKeys[setexKeys.length - 1]).toBe('ez:catalog');
+
+            await expect(store.get('ez:catalog', { graceSeconds: 0 })).resolves.toEqual({ value: catalog, stale: false, staleFor: 0 });
+        });
+
+        test('should treat missing or corrupt chunks as a miss', async () => {
+            const { send, redis, store } = await connect();
+            await store.set('ez:catalog', catalog, { ttl: 30, graceSeconds: 0, tags: [] });
+            const [first, second] = chunkKeysOf(send);
+
+            await redis.setex(first, 60, { index: 0, data: 'tampered' });
+            await expect(store.get('ez:catalog', { graceSeconds: 0 })).resolves.toBeNull();
+
+            await redis.del(second);
+            await expect(store.get('ez:catalog', { graceSeconds: 0 })).resolves.toBeNull();
+        });
+
+        test('should remove every chunk on clear and tag invalidation', async () => {
+            const { send, redis, store } = await connect();
+            await store.set('ez:cleared', catalog, { ttl: 30, graceSeconds: 0, tags: [] });
+            await store.set('ez:tagged', catalog, { ttl: 30, graceSeconds: 0, tags: ['catalog'] });
+            const keys = chunkKeysOf(send);
+
+            await store.delete('ez:cleared');
+            await store.deleteByTags(['catalog']);
+
+            for (const key of ['ez:cleared', 'ez:tagged', 'ez:cleared#chunks', 'ez:tagged#chunks', ...keys]) {
+                await expect(redis.exists(key)).resolves.toBe(false);
+            }
+        });
+
+        test('should remove the previous chunks when a chunked key is overwritten', async () => {
+            const { send, redis, store } = await connect();
+            await store.set('ez:catalog', catalog, { ttl: 30, graceSeconds: 0, tags: ['catalog'] });
+            const oldKeys = chunkKeysOf(send);
+            send.mockClear();
+
+            const updated = catalog.map(item => ({ ...item, name: `${item.name} (neu)` }));
+            await store.set('ez:catalog', updated, { ttl: 30, graceSeconds: 0, tags: ['catalog'] });
+            const newKeys = chunkKeysOf(send);
+
+            // Found through the chunk pointer, not by reading the old value
+            expect(send.mock.calls.filter(([[command]]) => command === 'GET')).toHaveLength(0);
+            for (const key of oldKeys) {
+                await expect(redis.exists(key)).resolves.toBe(false);
+            }
+            await expect(redis.smembers('ez-tag:catalog')).resolves.toEqual(['ez:catalog', 'ez:catalog#chunks', ...newKeys]);
+            await expect(store.get('ez:catalog', { graceSeconds: 0 })).resolves.toMatchObject({ value: updated });
+        });
+    });
+
+    describe('Encryption', () => {
+        const keyA = Buffer.alloc(32, 1).toString('base64');
+        const keyB = Buffer.alloc(32, 2).toString('base64');
+        const profile = { id: 7, email: 'ada@example.com' };
+
+        const connect = async (send: jest.Mock, encryptionKeys: string) => {
+            const redis = new ResilientRedis({ client: new TcpRedisClient(send), config: { ...CACHE_CONFIG, ENCRYPTION_KEYS: encryptionKeys } });
+            await new Promise(resolve => setImmediate(resolve));
+            const onDecryptionFailure = jest.fn();
+            return { redis, onDecryptionFailure, store: new RedisStore(redis, { onDecryptionFailure }) };
+        };
+
+        test('should encrypt and sign values stored in Redis', async () => {
+            const { redis, store } = await connect(createCommandStandIn(), `a:${keyA}`);
+            await store.set('ez:profile', profile, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            const raw = await redis.get('ez:profile') as { encoding: string; payload: string; sealed: { keyId: string } };
+            expect(raw.encoding).toBe('rich+aes-256-gcm');
+            expect(raw.sealed.keyId).toBe('a');
+            expect(raw.payload).not.toContain('ada@example.com');
+            await expect(store.get('ez:profile', { graceSeconds: 0 })).resolves.toEqual({ value: profile, stale: false, staleFor: 0 });
+        });
+
+        test('should read values written with a rotated-out key', async () => {
+            const send = createCommandStandIn();
+            const before = await connect(send, `a:${keyA}`);
+            await before.store.set('ez:profile', profile, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            const after = await connect(send, `b:${keyB},a:${keyA}`);
+            await expect(after.store.get('ez:profile', { graceSeconds: 0 })).resolves.toMatchObject({ value: profile });
+
+            await after.store.set('ez:profile', profile, { ttl: 30, graceSeconds: 0, tags: [] });
+            expect(await after.redis.get('ez:profile')).toMatchObject({ sealed: { keyId: 'b' } });
+
+            const retired = await connect(send, `a:${keyA}`);
+            await expect(retired.store.get('ez:profile', { graceSeconds: 0 })).resolves.toBeNull();
+            expect(retired.onDecryptionFailure).toHaveBeenCalledTimes(1);
+        });
+
+        test('should reject tampered and unsigned values as misses', async () => {
+            const send = createCommandStandIn();
+            const { redis, store, onDecryptionFailure } = await connect(send, `a:${keyA}`);
+            await store.set('ez:profile', profile, { ttl: 30, graceSeconds: 0, tags: [] });
+
+            const raw = await redis.get('ez:profile') as Record<string, unknown>;
+            await redis.setex('ez:profile', 60, { ...raw, tags: ['public'] });
+            await expect(store.get('ez:profile', { graceSeconds: 0 })).resolves.toBeNull();
+            expect(onDecryptionFailure).toHaveBeenCalledTimes(1);
+
+            // Copied to another key
+            await redis.setex('ez:other', 60, raw);
+            await expect(store.get('ez:other', { graceSeconds: 0 })).resolves.toBeNull();
+            expect(onDecryptionFailure).toHaveBeenCalledTimes(2);
+
+            // Plaintext written without keys
+            const plain = await connect(send, '');
+            await plain.store.set('ez:plain', profile, { ttl: 30, graceSeconds: 0, tags: [] });
+            await expect(store.get('ez:plain', { graceSeconds: 0 })).resolves.toBeNull();
+            expect(onDecryptionFailure).toHaveBeenCalledTimes(2);
+        });
+
+        test('should count decryption failures apart from errors', () => {
+            const metrics = new PerformanceMetrics({ ...CACHE_CONFIG, ENABLE_METRICS: true });
+            metrics.recordMiss(5);
+            metrics.recordDecryptionFailure();
+
+            expect(metrics.getStats()).toMatchObject({ errors: 0, errorRate: 0, decryptionFailures: 1, totalRequests: 1 });
+        });
+
+        test('should validate keys without echoing them', () => {
+            const { issues } = validateCacheConfig({ encryptionKeys: 'a:c2hvcnQ=' }, 'test');
+
+            expect(issues).toEqual(['test: "encryptionKeys" must be a comma-separated list of keyId:base64Key with 32-byte keys (got ***)']);
+        });
+    });
+
     describe('Error Handling', () => {
         test('should handle fetcher errors gracefully', async () => {
             const mockFetcher = jest.fn().mockRejectedValue(new Error('Database error'));
@@ -127,6 +968,22 @@ describe('@shohan/cache', () => {
             expect(testResult).toHaveProperty('traffic');
             expect(testResult).toHaveProperty('overall');
         });
+
+        test('should report stale hits and coalesced calls separately from the hit rate', () => {
+            const metrics = new PerformanceMetrics({ ...CACHE_CONFIG, ENABLE_METRICS: true });
+            metrics.recordHit(1);
+            metrics.recordStaleHit(1);
+            metrics.recordCoalesced(1);
+            metrics.recordMiss(1);
+
+            expect(metrics.getStats()).toMatchObject({ totalRequests: 4, hitRate: 25, staleHitRate: 25, coalescedRate: 25, errorRate: 0 });
+
+            // Stale hits and coalesced calls count towards efficiency like fresh hits
+            const fresh = new PerformanceMetrics({ ...CACHE_CONFIG, ENABLE_METRICS: true });
+            [1, 2, 3].forEach(() => fresh.recordHit(1));
+            fresh.recordMiss(1);
+            expect(metrics.getEfficiencyScore()).toBe(fresh.getEfficiencyScore());
+        });
     });
 
     describe('Custom Cache Instance', () => {
@@ -137,5 +994,729 @@ describe('@shohan/cache', () => {
             expect(customCache.getStats).toBeDefined();
             expect(customCache.fetch).toBeDefined();
         });
+
+        test('should give each createCache instance its own config', async () => {
+            const eager = createCache({ trafficThreshold: 1, defaultTtl: 30, memorySize: 10 });
+            const lazy = createCache({ trafficThreshold: 1000, enableMemory: false });
+
+            expect(eager.getStats().config).toMatchObject({ trafficThreshold: 1, defaultTtl: 30, memorySize: 10 });
+            expect(lazy.getStats().config.trafficThreshold).toBe(1000);
+            expect(lazy.getStats().memory.enabled).toBe(false);
+
+            // Env-only defaults are untouched
+            expect(cache.getStats().config.defaultTtl).not.toBe(30);
+
+            const eagerFetcher = jest.fn().mockResolvedValue({ id: 1 });
+            await eager.fetch('per-instance', eagerFetcher);
+            await eager.fetch('per-instance', eagerFetcher);
+            expect(eagerFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should share exit listeners and release everything on destroy', async () => {
+            const listeners = () => ['exit', 'SIGINT', 'SIGTERM'].map(event => process.listenerCount(event));
+            const before = listeners();
+            const send = createCommandStandIn();
+
+            const instances = Array.from({ length: 15 }, () => createCache({ redisClient: new TcpRedisClient(send), cleanupInterval: 1000 }));
+            await new Promise(resolve => setImmediate(resolve));
+            const [exitAfter, sigintAfter, sigtermAfter] = listeners();
+            expect(exitAfter - before[0]).toBeLessThanOrEqual(2); // One for caches, one for Redis clients
+            expect([sigintAfter, sigtermAfter]).toEqual(before.slice(1));
+
+            const bus = new InProcessTransport('destroy-test');
+            const close = jest.spyOn(bus, 'close');
+            await instances[0].useInvalidationBus(bus);
+
+            await Promise.all(instances.map(instance => instance.destroy()));
+            expect(close).toHaveBeenCalled();
+            expect(instances[0].getStats().redis.connected).toBe(false);
+            expect(listeners()).toEqual(before);
+
+            // Still usable from memory, without Redis
+            const fetcher = jest.fn().mockResolvedValue({ id: 1 });
+            await instances[0].fetch('destroyed', fetcher, { forceCaching: true });
+            await instances[0].fetch('destroyed', fetcher, { forceCaching: true });
+            expect(fetcher).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('Config Validation', () => {
+        const savedEnv = { ...process.env };
+
+        afterEach(() => {
+            process.env = { ...savedEnv };
+        });
+
+        test('should report every invalid or unknown option', () => {
+            const { config, issues } = validateCacheConfig({ defaultTtl: 'abc', cacheStrategy: 'fast', memorySize: 100, ttl: 5 }, 'test');
+
+            expect(config).toEqual({ memorySize: 100 });
+            expect(issues).toEqual([
+                'test: "defaultTtl" must be an integer >= 1 (got "abc")',
+                'test: "cacheStrategy" must be one of aggressive, balanced, conservative, memory-only, custom (got "fast")',
+                'test: unknown option "ttl"'
+            ]);
+        });
+
+        test('should throw for invalid createCache options and env values', () => {
+            process.env.CACHE_REDIS_TIMEOUT = 'abc';
+
+            expect(() => createCache({ trafficThreshold: 0 })).toThrow(CacheConfigError);
+            expect(() => createCache({ trafficThreshold: 0 })).toThrow(/CACHE_REDIS_TIMEOUT must be an integer >= 1 \(got "abc"\)/);
+            expect(() => createCache({ trafficThreshold: 0 })).toThrow(/"trafficThreshold" must be an integer >= 1/);
+        });
+
+        test('should load the package with an invalid environment and throw on first use', () => {
+            process.env.CACHE_REDIS_TIMEOUT = 'abc';
+
+            jest.isolateModules(() => {
+                let isolated: typeof import('../src/cache/index') | undefined;
+                expect(() => { isolated = require('../src/cache/index'); }).not.toThrow();
+
+                expect(() => isolated!.createCache()).toThrow(/CACHE_REDIS_TIMEOUT must be an integer >= 1/);
+                expect(() => isolated!.cache.getStats()).toThrow(isolated!.CacheConfigError);
+                expect(() => isolated!.CACHE_CONFIG.DEFAULT_TTL).toThrow(isolated!.CacheConfigError);
+            });
+        });
+
+                test('should merge the config file under env and options', () => {
+            const dir = mkdtempSync(join(tmpdir(), 'shohan-cache-'));
+            writeFileSync(join(dir, 'shohan.cache.config.json'), JSON.stringify({ defaultTtl: 45, memorySize: 50, redisTimeout: 1500 }));
+            process.env.CACHE_CONFIG_FILE = join(dir, 'shohan.cache.config.json');
+            process.env.CACHE_REDIS_TIMEOUT = '2500';
+
+            const summary = CONFIG_HELPERS.getConfigSummary(resolveCacheConfig({ memorySize: 75 }));
+
+            expect(summary.configFile).toBe(join(dir, 'shohan.cache.config.json'));
+            expect(summary).toMatchObject({ defaultTtl: 45, memorySize: 75, limits: { redisTimeout: 2500 } });
+            expect(summary.sources).toMatchObject({ defaultTtl: 'file', redisTimeout: 'env', memorySize: 'options', lockTtl: 'default' });
+        });
+    });
+
+    describe('Runtime Reconfiguration', () => {
+        test('should evict down to a smaller memory size and emit config-changed', async () => {
+            const live = createCache({ memorySize: 5, trafficThreshold: 20 });
+            for (let i = 0; i < 5; i++) {
+                await live.fetch(`item:${i}`, async () => ({ i }), { forceCaching: true });
+            }
+
+            const listener = jest.fn();
+            live.on('config-changed', listener);
+            const event = live.configure({ memorySize: 2, trafficThreshold: 500 });
+
+            expect(event.evicted).toBe(3);
+            expect(event.changes).toMatchObject({
+                MEMORY_SIZE: { previous: 5, current: 2 },
+                TRAFFIC_THRESHOLD: { previous: 20, current: 500 }
+            });
+            expect(listener).toHaveBeenCalledWith(event);
+            expect(live.getStats().memory.size).toBe(2);
+            expect(live.getStats().config.trafficThreshold).toBe(500);
+        });
+
+        test('should reject invalid changes without applying them', () => {
+            const live = createCache({ memorySize: 5 });
+            const listener = jest.fn();
+            live.on('config-changed', listener);
+
+            expect(() => live.configure({ memorySize: 0, defaultTtl: 30 })).toThrow(CacheConfigError);
+            expect(live.getStats().config.memorySize).toBe(5);
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        test('should stop caching in memory when memory is disabled', async () => {
+            const live = createCache();
+            const mockFetcher = jest.fn().mockResolvedValue('value');
+            await live.fetch('toggle', mockFetcher, { forceCaching: true });
+
+            expect(live.configure({ enableMemory: false }).mode).toBe('DISABLED');
+            await live.fetch('toggle', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+
+            live.configure({ enableMemory: true });
+            await live.fetch('toggle', mockFetcher, { forceCaching: true });
+            await live.fetch('toggle', mockFetcher, { forceCaching: true });
+            expect(mockFetcher).toHaveBeenCalledTimes(3);
+        });
+
+        test('should keep the file and env values read at creation', () => {
+            const savedEnv = { ...process.env };
+            process.env.CACHE_DEFAULT_TTL = '45';
+            const live = createCache();
+
+            try {
+                process.env.CACHE_DEFAULT_TTL = 'abc';
+                expect(() => live.configure({ memorySize: 10 })).not.toThrow();
+                expect(live.getStats().config).toMatchObject({ defaultTtl: 45, memorySize: 10 });
+            } finally {
+                process.env = savedEnv;
+            }
+        });
+
+        test('should apply changes to an active invalidation bus', async () => {
+            const live = createCache({ enableLogging: false });
+            await live.useInvalidationBus({
+                subscribe: async () => undefined,
+                publish: async () => { throw new Error('bus down'); },
+                close: async () => undefined
+            });
+            const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+            try {
+                await live.clear('bus:quiet');
+                expect(log).not.toHaveBeenCalled();
+
+                live.configure({ enableLogging: true });
+                await live.clear('bus:logged');
+                expect(log).toHaveBeenCalledWith('[INVALIDATION] Failed to broadcast invalidation: bus down');
+            } finally {
+                log.mockRestore();
+            }
+        });
+    });
+
+    describe('Schema Validation', () => {
+        // zod-style safeParse without depending on zod
+        const userSchema = {
+            safeParse(value: unknown) {
+                const user = value as { id?: unknown; name?: unknown };
+                return typeof user?.id === 'number' && typeof user?.name === 'string' ?
+                    { success: true as const, data: { id: user.id, name: user.name } } :
+                    { success: false as const, error: new Error('Invalid user') };
+            }
+        };
+
+        test('should evict values with an old shape and fetch again', async () => {
+            const validated = createCache({ enableMetrics: true });
+            await validated.fetch('user:1', async () => ({ id: '1', fullName: 'Old Shape' }), { forceCaching: true });
+
+            const mockFetcher = jest.fn().mockResolvedValue({ id: 1, name: 'New Shape' });
+            const result = await validated.fetch('user:1', mockFetcher, { forceCaching: true, schema: userSchema });
+
+            expect(result).toEqual({ id: 1, name: 'New Shape' });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+            expect(validated.getStats().performance?.validationFailures).toBe(1);
+
+            // The re-fetched value passes and is served from cache
+            await validated.fetch('user:1', mockFetcher, { forceCaching: true, schema: userSchema });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should serve the parsed value from parse()-style schemas', async () => {
+            const trimmed = { parse: (value: unknown) => String(value).trim() };
+            await cache.fetch('padded', async () => '  value  ', { forceCaching: true });
+
+            const result = await cache.fetch('padded', async () => 'fresh', { forceCaching: true, schema: trimmed });
+            expect(result).toBe('value');
+        });
+    });
+
+    describe('Bloom Filter', () => {
+        test('should skip the database for ids that were never added', async () => {
+            const guarded = createCache();
+            await guarded.addBloomFilter('product', { expectedItems: 100, load: async () => [1, 2, 3] });
+            const mockFetcher = jest.fn().mockResolvedValue({ id: 2 });
+
+            expect(await guarded.fetch('product:2', mockFetcher, { forceCaching: true })).toEqual({ id: 2 });
+            await expect(guarded.fetch('product:404', mockFetcher, { forceCaching: true })).rejects.toBeInstanceOf(BloomFilterRejectedError);
+            await expect(guarded.fetch('product:404', mockFetcher, { forceCaching: true })).rejects.toMatchObject({ status: 404, id: '404' });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+
+            expect(guarded.getStats().bloom).toEqual([
+                expect.objectContaining({ namespace: 'product', items: 3, rejected: 2, passed: 1, shared: false })
+            ]);
+        });
+
+        test('should admit ids added after seeding', async () => {
+            const guarded = createCache();
+            const users = await guarded.addBloomFilter('user', { expectedItems: 100 });
+            const mockFetcher = jest.fn().mockResolvedValue({ id: 7 });
+
+            await expect(guarded.fetch('user:7', mockFetcher, { forceCaching: true })).rejects.toThrow(BloomFilterRejectedError);
+            await users.add(7);
+            expect(await guarded.fetch('user:7', mockFetcher, { forceCaching: true })).toEqual({ id: 7 });
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should check only the segment after the namespace', async () => {
+            const guarded = createCache();
+            await guarded.addBloomFilter('product', { expectedItems: 100, load: async () => [42] });
+            const mockFetcher = jest.fn().mockResolvedValue(['great']);
+
+            expect(await guarded.fetch('product:42:reviews', mockFetcher, { forceCaching: true })).toEqual(['great']);
+            await expect(guarded.fetch('product:43:reviews', mockFetcher, { forceCaching: true })).rejects.toThrow(BloomFilterRejectedError);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should check the filter only on a miss', async () => {
+            const guarded = createCache();
+            await guarded.fetch('product:list', async () => ['a', 'b'], { forceCaching: true });
+            await guarded.fetch('product:7', async () => ({ id: 7 }), { forceCaching: true });
+            const products = await guarded.addBloomFilter('product', { expectedItems: 100 });
+            const mightContain = jest.spyOn(products, 'mightContain');
+            const mockFetcher = jest.fn().mockResolvedValue(null);
+
+            // Cached before the filter existed - served, not rejected
+            expect(await guarded.fetch('product:list', mockFetcher, { forceCaching: true })).toEqual(['a', 'b']);
+            expect(await guarded.fetch('product:7', mockFetcher, { forceCaching: true })).toEqual({ id: 7 });
+            expect(mightContain).not.toHaveBeenCalled();
+
+            await expect(guarded.fetch('product:8', mockFetcher, { forceCaching: true, negativeTtl: 60 })).rejects.toThrow(BloomFilterRejectedError);
+            expect(mightContain).toHaveBeenCalledTimes(1);
+            expect(mockFetcher).not.toHaveBeenCalled();
+
+            // Rejections are not cached - the id works as soon as it is added
+            await products.add(8);
+            mockFetcher.mockResolvedValue({ id: 8 });
+            expect(await guarded.fetch('product:8', mockFetcher, { forceCaching: true, negativeTtl: 60 })).toEqual({ id: 8 });
+        });
+
+        test('should add ids found on uncached paths', async () => {
+            const lowTraffic = createCache({ enableTrafficDetection: true, trafficThreshold: 100 });
+            const disabled = createCache({ enableMemory: false, enableRedis: false });
+
+            for (const instance of [lowTraffic, disabled]) {
+                const orders = await instance.addBloomFilter('order', { expectedItems: 100, load: async () => [5] });
+                const add = jest.spyOn(orders, 'add');
+
+                await instance.fetch('order:5', async () => ({ id: 5 }));
+                await instance.fetch('order:5', async () => null);
+                expect(add).toHaveBeenCalledTimes(1);
+                expect(add).toHaveBeenCalledWith('5');
+            }
+        });
+
+        test('should stay near the configured false-positive rate', async () => {
+            const filter = new BloomFilter('ids', { expectedItems: 1000, falsePositiveRate: 0.01 });
+            for (let i = 0; i < 1000; i++) await filter.add(`member-${i}`);
+
+            let falsePositives = 0;
+            for (let i = 0; i < 5000; i++) {
+                if (await filter.mightContain(`stranger-${i}`)) falsePositives++;
+            }
+
+            expect(falsePositives / 5000).toBeLessThan(0.03);
+            expect(filter.getStats().estimatedFalsePositiveRate).toBeCloseTo(0.01, 2);
+        });
+
+        test('should share ids through a Redis bitmap', async () => {
+            const bitmap = new Set<string>();
+            const client = {
+                ping: async () => 'PONG',
+                eval: async (script: string, keys: string[], args: unknown[]) => script.includes('SETBIT') ?
+                    args.forEach(offset => bitmap.add(`${keys[0]}:${offset}`)) :
+                    args.map(offset => bitmap.has(`${keys[0]}:${offset}`) ? 1 : 0)
+            } as unknown as RedisClient;
+            const redis = new ResilientRedis({ client });
+            await new Promise(resolve => setImmediate(resolve));
+
+            const writer = new BloomFilter('order', { expectedItems: 100, redis: true }, () => redis);
+            const reader = new BloomFilter('order', { expectedItems: 100, redis: true }, () => redis);
+            await writer.add('A-100');
+
+            await expect(reader.mightContain('A-100')).resolves.toBe(true);
+            await expect(reader.mightContain('B-200')).resolves.toBe(false);
+        });
+    });
+
+    describe('Memoize', () => {
+        test('should hash arguments independently of key order', () => {
+            const at = new Date('2024-06-01T00:00:00.000Z');
+
+            expect(hashArguments([{ a: 1, b: [at, new Set([2, 1])] }])).toBe(hashArguments([{ b: [new Date(at), new Set([1, 2])], a: 1 }]));
+            expect(hashArguments([{ a: 1, b: undefined }])).toBe(hashArguments([{ a: 1 }]));
+            expect(hashArguments([1, '1'])).not.toBe(hashArguments(['1', 1]));
+            expect(hashArguments([new Date(0)])).not.toBe(hashArguments([new Date(1)]));
+            expect(() => hashArguments([() => 1])).toThrow(TypeError);
+        });
+
+        test('should cache calls through fetch with the same signature', async () => {
+            const search = jest.fn(async (filter: { category: string; page: number }) => [`${filter.category}:${filter.page}`]);
+            const cachedSearch = memoize(search, { keyPrefix: 'memo:search', forceCaching: true });
+
+            const result: string[] = await cachedSearch({ category: 'books', page: 1 });
+            expect(result).toEqual(['books:1']);
+            await cachedSearch({ page: 1, category: 'books' });
+            expect(search).toHaveBeenCalledTimes(1);
+
+            await cachedSearch({ category: 'books', page: 2 });
+            expect(search).toHaveBeenCalledTimes(2);
+
+            // Same signature as the wrapped function
+            const typed: (filter: { category: string; page: number }) => Promise<string[]> = cachedSearch;
+            expect(typed).toBe(cachedSearch);
+        });
+
+        test('should clear, refresh and use keyFn', async () => {
+            const load = jest.fn(async (userId: number, page: number) => ({ userId, page }));
+            const posts = memoize(load, { keyPrefix: 'memo:posts', keyFn: (userId, page) => `${userId}:${page}`, forceCaching: true });
+
+            expect(posts.key(42, 1)).toBe('memo:posts:42:1');
+            await posts(42, 1);
+            await posts.clear(42, 1);
+            await posts(42, 1);
+            expect(load).toHaveBeenCalledTimes(2);
+
+            await posts.refresh(42, 1);
+            expect(load).toHaveBeenCalledTimes(3);
+        });
+
+        test('should reject when the key cannot be built', async () => {
+            const load = jest.fn(async (callback: () => void) => typeof callback);
+            const unhashable = memoize(load, { keyPrefix: 'memo:unhashable', forceCaching: true });
+            const failingKey = memoize(async (id: number) => id, { keyPrefix: 'memo:failing', keyFn: () => { throw new Error('bad key'); } });
+
+            const pending = unhashable(() => undefined);
+            expect(pending).toBeInstanceOf(Promise);
+            await expect(pending).rejects.toThrow(TypeError);
+            await expect(unhashable.clear(() => undefined)).rejects.toThrow(TypeError);
+            await expect(failingKey.refresh(1)).rejects.toThrow('bad key');
+            expect(load).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('Decorators', () => {
+        test('should cache method calls by template key and keep the return type', async () => {
+            const load = jest.fn(async (id: number) => ({ id, name: `user ${id}` }));
+
+            class UserService {
+                constructor(private readonly prefix: string) {}
+
+                @Cached({ key: 'deco:user:{0}', tags: ['deco:users'], forceCaching: true })
+                async getUser(id: number): Promise<{ id: number; name: string }> {
+                    return { ...await load(id), name: `${this.prefix} ${id}` };
+                }
+            }
+
+            const service = new UserService('member');
+            const user: { id: number; name: string } = await service.getUser(7);
+            expect(user).toEqual({ id: 7, name: 'member 7' });
+            await service.getUser(7);
+            expect(load).toHaveBeenCalledTimes(1);
+
+            await cache.clear('deco:user:7');
+            await service.getUser(7);
+            expect(load).toHaveBeenCalledTimes(2);
+
+            await cache.invalidateTags(['deco:users']);
+            await service.getUser(7);
+            expect(load).toHaveBeenCalledTimes(3);
+        });
+
+        test('should build keys from functions, nested placeholders and argument hashes', async () => {
+            const search = jest.fn(async (filter: { category: string }, page: number) => [filter.category, page]);
+
+            class SearchService {
+                @Cached({ key: (filter: { category: string }, page: number) => `deco:search:${filter.category}:${page}`, forceCaching: true })
+                async byFunction(filter: { category: string }, page: number) { return search(filter, page); }
+
+                @Cached({ key: 'deco:nested:{0.category}/{1}', forceCaching: true })
+                async byTemplate(filter: { category: string }, page: number) { return search(filter, page); }
+
+                @Cached({ forceCaching: true })
+                async byDefault(filter: { category: string }, page: number) { return search(filter, page); }
+            }
+
+            const service = new SearchService();
+            const calls = [
+                () => service.byFunction({ category: 'books' }, 1),
+                () => service.byTemplate({ category: 'a b' }, 2),
+                () => service.byDefault({ category: 'toys' }, 3)
+            ];
+            const keys = ['deco:search:books:1', 'deco:nested:a%20b/2', `SearchService.byDefault:${hashArguments([{ category: 'toys' }, 3])}`];
+
+            for (const call of calls) await call();
+            for (const call of calls) await call();
+            expect(search).toHaveBeenCalledTimes(3);
+
+            // Clearing the expected keys makes every method load again
+            for (const key of keys) await cache.clear(key);
+            for (const call of calls) expect(await call()).toEqual(expect.any(Array));
+            expect(search).toHaveBeenCalledTimes(6);
+
+            await expect(service.byTemplate({ category: '' }, 1)).rejects.toThrow('Missing argument {0.category}');
+        });
+
+        test('should invalidate tags and keys only after a write succeeds', async () => {
+            const load = jest.fn(async (id: number) => ({ id }));
+
+            class ProductService {
+                @Cached({ key: 'deco:product:{0}', tags: ['deco:product:{0}'], forceCaching: true })
+                async getProduct(id: number) { return load(id); }
+
+                @Cached({ key: 'deco:products', tags: ['deco:products'], forceCaching: true })
+                async listProducts() { return [await load(0)]; }
+
+                @InvalidatesCache({ tags: ['deco:products'], keys: ['deco:product:{0}'] })
+                async updateProduct(id: number, fail = false): Promise<number> {
+                    if (fail) throw new Error('write failed');
+                    return id;
+                }
+            }
+
+            const service = new ProductService();
+            await service.getProduct(1);
+            await service.listProducts();
+
+            await expect(service.updateProduct(1, true)).rejects.toThrow('write failed');
+            await service.getProduct(1);
+            await service.listProducts();
+            expect(load).toHaveBeenCalledTimes(2);
+
+            expect(await service.updateProduct(1)).toBe(1);
+            await service.getProduct(1);
+            await service.listProducts();
+            expect(load).toHaveBeenCalledTimes(4);
+        });
+
+        test('should support TC39 standard decorators', async () => {
+            const custom = createCache({ enableLogging: false });
+            const load = jest.fn(async function (this: { scale: number }, value: number) { return value * this.scale; });
+            const context = { kind: 'method', name: 'scaled' } as ClassMethodDecoratorContext<{ scale: number }, typeof load>;
+
+            const scaled = custom.cached({ key: 'deco:tc39:{0}', forceCaching: true })(load, context);
+            const invalidate = custom.invalidatesCache({ keys: ['deco:tc39:{0}'] })(async (value: number) => value, { kind: 'method', name: 'reset' } as ClassMethodDecoratorContext);
+            const owner = { scale: 10, scaled };
+
+            expect(await owner.scaled(2)).toBe(20);
+            expect(await owner.scaled(2)).toBe(20);
+            expect(load).toHaveBeenCalledTimes(1);
+
+            await invalidate(2);
+            expect(await owner.scaled(2)).toBe(20);
+            expect(load).toHaveBeenCalledTimes(2);
+
+            expect(() => custom.cached()(load, { kind: 'getter', name: 'scaled' } as unknown as typeof context)).toThrow(TypeError);
+        });
+    });
+
+    describe('Typed Cache Keys', () => {
+        const userPosts = defineCacheKey('user/:id/posts', ({ id }) => ({ forceCaching: true, tags: [`user:${id}`] }));
+
+        test('should build keys from typed params', () => {
+            expect(userPosts({ id: 42 })).toBe('user:42:posts');
+            expect(userPosts({ id: 'a:b/c' })).toBe('user:a%3Ab%2Fc:posts');
+            expect(userPosts.pattern).toBe('user/:id/posts');
+
+            // @ts-expect-error - unknown param name
+            expect(() => userPosts({ userId: 42 })).toThrow('Missing parameter "id"');
+        });
+
+        test('should fetch, clear and refresh through the definition', async () => {
+            const mockFetcher = jest.fn(async ({ id }: { id: string | number }) => [{ userId: id }]);
+
+            expect(await userPosts.fetch({ id: 7 }, mockFetcher)).toEqual([{ userId: 7 }]);
+            await userPosts.fetch({ id: 7 }, mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+
+            await cache.invalidateTags(['user:7']);
+            await userPosts.fetch({ id: 7 }, mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+
+            await userPosts.clear({ id: 7 });
+            await userPosts.refresh({ id: 7 }, mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(3);
+        });
+
+        test('should reject when a parameter is missing', async () => {
+            const mockFetcher = jest.fn().mockResolvedValue([]);
+            const missing = { id: '' };
+
+            const pending = userPosts.fetch(missing, mockFetcher);
+            expect(pending).toBeInstanceOf(Promise);
+            await expect(pending).rejects.toThrow('Missing parameter "id"');
+            await expect(userPosts.clear(missing)).rejects.toThrow('Missing parameter "id"');
+            await expect(userPosts.refresh(missing, mockFetcher)).rejects.toThrow('Missing parameter "id"');
+            expect(mockFetcher).not.toHaveBeenCalled();
+        });
+
+        test('should bind keys to other instances', async () => {
+            const other = createCache();
+            const settings = other.defineKey('settings/:scope', { forceCaching: true, ttl: 60 });
+            const mockFetcher = jest.fn().mockResolvedValue({ theme: 'dark' });
+
+            await settings.fetch({ scope: 'ui' }, mockFetcher);
+            await settings.fetch({ scope: 'ui' }, mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+            expect(await cache.fetch('settings:ui', async () => 'default')).toBe('default');
+        });
+
+        test('should keep definition options that a call leaves undefined', async () => {
+            const other = createCache();
+            const fetch = jest.spyOn(other, 'fetch');
+            const settings = other.defineKey('settings/:scope', { forceCaching: true, ttl: 60 });
+
+            await settings.fetch({ scope: 'ui' }, async () => ({ theme: 'dark' }), { ttl: undefined, forceCaching: undefined, staleIfError: 30 });
+            expect(fetch).toHaveBeenCalledWith('settings:ui', expect.any(Function), { forceCaching: true, ttl: 60, staleIfError: 30 });
+        });
+    });
+
+    // Minimal Map-backed store standing in for a team's own tier
+    class MapStore implements CacheStore {
+        readonly shared = true;
+        entries = new Map<string, unknown>();
+
+        constructor(readonly name: string) { }
+
+        async get<T>(key: string): Promise<StoreEntry<T> | null> {
+            return this.entries.has(key) ? { value: this.entries.get(key) as T, stale: false, staleFor: 0 } : null;
+        }
+        async set(key: string, value: unknown): Promise<boolean> {
+            this.entries.set(key, value);
+            return true;
+        }
+        async delete(key: string): Promise<boolean> {
+            return this.entries.delete(key);
+        }
+        async has(key: string): Promise<boolean> {
+            return this.entries.has(key);
+        }
+        async ttl(key: string): Promise<number> {
+            return this.entries.has(key) ? -1 : -2;
+        }
+    }
+
+    describe('Custom Cache Tiers', () => {
+        test('should read through tiers and backfill faster ones', async () => {
+            const memory = new ProductionMemoryCache();
+            const remote = new MapStore('remote');
+            const tiered = new ProductionEZCache({ stores: [new MemoryStore(memory), remote] });
+            remote.entries.set('ez:tiered', { from: 'remote' });
+
+            const mockFetcher = jest.fn().mockResolvedValue({ from: 'db' });
+            const result = await tiered.fetch('tiered', mockFetcher, { forceCaching: true });
+
+            expect(result).toEqual({ from: 'remote' });
+            expect(mockFetcher).not.toHaveBeenCalled();
+            expect(memory.get('ez:tiered')).toEqual({ from: 'remote' });
+        });
+
+        test('should write to and clear every tier', async () => {
+            const first = new MapStore('first');
+            const second = new MapStore('second');
+            const tiered = new ProductionEZCache({ stores: [first, second] });
+
+            await tiered.fetch('all-tiers', async () => ({ id: 1 }), { forceCaching: true });
+            expect(first.entries.get('ez:all-tiers')).toEqual({ id: 1 });
+            expect(second.entries.get('ez:all-tiers')).toEqual({ id: 1 });
+
+            await tiered.clear('all-tiers');
+            expect(first.entries.size + second.entries.size).toBe(0);
+        });
+    });
+
+    describe('Policy Rules', () => {
+        test('should apply the first matching rule', async () => {
+            const policyCache = createCache({
+                policies: [{ pattern: 'config:*', options: { forceCaching: true, ttl: 120, tags: ['config'] } }]
+            });
+            const mockFetcher = jest.fn().mockResolvedValue({ theme: 'dark' });
+
+            await policyCache.fetch('config:ui', mockFetcher);
+            await policyCache.fetch('config:ui', mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+
+            await policyCache.invalidateTags(['config']);
+            await policyCache.fetch('config:ui', mockFetcher);
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
+
+        test('should let per-call options override the rule', () => {
+            const policyCache = createCache()
+                .addPolicy('products:*', { ttl: 300, tags: ['products'] })
+                .addPolicy('products:featured', { ttl: 30 });
+
+            const match = policyCache.explainPolicy('products:42', { ttl: 60, tags: ['sale'] });
+            expect(match.rule?.pattern).toBe('products:*');
+            expect(match.options.ttl).toBe(60);
+            expect(match.options.tags).toEqual(['products', 'sale']);
+
+            expect(policyCache.explainPolicy('product').rule).toBeNull();
+            expect(policyCache.removePolicy('products:*')).toBe(true);
+            expect(policyCache.explainPolicy('products:featured').options.ttl).toBe(30);
+        });
+
+        test('should restrict caching to the rule tiers', async () => {
+            const remote = new MapStore('redis');
+            const policyCache = new ProductionEZCache({
+                stores: [new MemoryStore(new ProductionMemoryCache()), remote],
+                policies: [{ pattern: 'user:*:session', options: { tiers: ['memory'], forceCaching: true } }]
+            });
+
+            await policyCache.fetch('user:7:session', async () => ({ id: 7 }));
+            await policyCache.fetch('user:7:profile', async () => ({ id: 7 }), { forceCaching: true });
+
+            expect(remote.entries.has('ez:user:7:session')).toBe(false);
+            expect(remote.entries.has('ez:user:7:profile')).toBe(true);
+        });
+    });
+
+    describe('Falsy Values and Negative Caching', () => {
+        // Records the TTL each key was written with
+        class RecordingStore extends MapStore {
+            ttls = new Map<string, number>();
+
+            async set(key: string, value: unknown, options?: StoreSetOptions): Promise<boolean> {
+                this.ttls.set(key, options?.ttl ?? 0);
+                return super.set(key, value);
+            }
+        }
+
+        test.each([0, false, '', null])('should cache the falsy value %p', async (value) => {
+            const mockFetcher = jest.fn().mockResolvedValue(value);
+
+            expect(await cache.fetch(`falsy:${String(value)}`, mockFetcher, { forceCaching: true })).toBe(value);
+            expect(await cache.fetch(`falsy:${String(value)}`, mockFetcher, { forceCaching: true })).toBe(value);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should cache empty results with negativeTtl', async () => {
+            const store = new RecordingStore('recording');
+            const negative = new ProductionEZCache({ stores: [store] });
+
+            await negative.fetch('user:missing', async () => null, { forceCaching: true, ttl: 300, negativeTtl: 15 });
+            await negative.fetch('posts:none', async () => [], { forceCaching: true, ttl: 300, negativeTtl: 15 });
+            await negative.fetch('user:1', async () => ({ id: 1 }), { forceCaching: true, ttl: 300, negativeTtl: 15 });
+
+            expect(store.ttls.get('ez:user:missing')).toBe(15);
+            expect(store.ttls.get('ez:posts:none')).toBe(15);
+            expect(store.ttls.get('ez:user:1')).toBe(300);
+        });
+
+        test('should remember "not found" errors and re-throw them', async () => {
+            const notFound = Object.assign(new Error('User 9 not found'), { status: 404 });
+            const mockFetcher = jest.fn().mockRejectedValue(notFound);
+            const options = { forceCaching: true, negativeTtl: 30 };
+
+            await expect(cache.fetch('user:9', mockFetcher, options)).rejects.toBe(notFound);
+
+            const cached = cache.fetch('user:9', mockFetcher, options);
+            await expect(cached).rejects.toBeInstanceOf(CachedNotFoundError);
+            await expect(cached).rejects.toMatchObject({ message: 'User 9 not found', status: 404 });
+            await expect(cached.catch(isCachedNotFound)).resolves.toBe(true);
+            expect(isCachedNotFound(notFound)).toBe(false);
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should rebuild the app\'s error on cached "not found" hits with toError', async () => {
+            class UserNotFoundError extends Error {
+                readonly status = 404;
+            }
+            const mockFetcher = jest.fn().mockRejectedValue(new UserNotFoundError('User 11 not found'));
+            const options = { forceCaching: true, negativeTtl: 30, toError: (cached: CachedNotFoundError) => new UserNotFoundError(cached.message) };
+
+            await expect(cache.fetch('user:11', mockFetcher, options)).rejects.toBeInstanceOf(UserNotFoundError);
+            await expect(cache.fetch('user:11', mockFetcher, options)).rejects.toBeInstanceOf(UserNotFoundError);
+            await expect(cache.fetch('user:11', mockFetcher, options)).rejects.toThrow('User 11 not found');
+            expect(mockFetcher).toHaveBeenCalledTimes(1);
+        });
+
+        test('should not cache errors without negativeTtl', async () => {
+            const mockFetcher = jest.fn().mockRejectedValue(Object.assign(new Error('Gone'), { statusCode: 404 }));
+
+            await expect(cache.fetch('user:10', mockFetcher, { forceCaching: true })).rejects.toThrow('Gone');
+            await expect(cache.fetch('user:10', mockFetcher, { forceCaching: true })).rejects.toThrow('Gone');
+            expect(mockFetcher).toHaveBeenCalledTimes(2);
+        });
     });
 });
@@ -11,7 +11,7 @@ export default defineConfig([
         splitting: false,
         minify: true,
         target: 'node16',
-        external: ['@upstash/redis'],
+        external: ['@upstash/redis', 'ioredis', 'redis'],
         banner: {
             js: '/* Shohan - Production-Grade Utilities & Tools */',
         },
@@ -29,7 +29,7 @@ export default defineConfig([
         splitting: false,
         minify: true,
         target: 'node16',
-        external: ['@upstash/redis'],
+        external: ['@upstash/redis', 'ioredis', 'redis'],
         banner: {
             js: '/* Shohan Cache - Smart Cache System */',
         },